@@ -1,78 +1,280 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo, useReducer } from 'react';
 import Peer, { DataConnection } from 'peerjs';
-import { Send, Download, ShieldCheck, FileCheck, XCircle, Loader2, Wifi, Image as ImageIcon, FileText, Smartphone, Share2, Play, UploadCloud, RefreshCw, User, Github, Globe, Code, Heart, ArrowRight, Zap, Lock, Instagram } from 'lucide-react';
+import { Send, Download, ShieldCheck, FileCheck, XCircle, Loader2, Wifi, FileText, Smartphone, Share2, Play, UploadCloud, RefreshCw, User, Github, Globe, Code, Heart, ArrowRight, Zap, Lock, Instagram, ChevronUp, ChevronDown, Plus, FolderOpen, FolderDown, Archive, Settings, QrCode as QrCodeIcon, Camera, History, Pause, Users, ShieldOff, Filter } from 'lucide-react';
 import { Footer } from './components/Footer';
 import { Modal } from './components/Modal';
-import { TransferState, FileMetadata, DataPacket, QueuedFile } from './types';
-
-// Helper to generate a 6-digit ID
-const generateId = () => Math.floor(100000 + Math.random() * 900000).toString();
-
-// Function to format bytes to human readable string
-const formatBytes = (bytes: number, decimals = 2) => {
-  if (bytes === 0) return '0 Bytes';
-  const k = 1024;
-  const dm = decimals < 0 ? 0 : decimals;
-  const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB'];
-  const i = Math.floor(Math.log(bytes) / Math.log(k));
-  return parseFloat((bytes / Math.pow(k, i)).toFixed(dm)) + ' ' + sizes[i];
-};
-
-// Optimized for Local Wi-Fi (LAN) Speed
-const CHUNK_SIZE = 32 * 1024; // 32KB chunks for balance
-const MAX_BUFFER_AMOUNT = 1024 * 1024; // 1MB Buffer - Allows faster bursts on LAN
+import { SettingsModal } from './components/SettingsModal';
+import { HistoryModal } from './components/HistoryModal';
+import { DevicesModal } from './components/DevicesModal';
+import { AcceptanceModal } from './components/AcceptanceModal';
+import { ManualPairingModal } from './components/ManualPairingModal';
+import { PairingCodeModal } from './components/PairingCodeModal';
+import { PairingCodeBadge } from './components/PairingCodeBadge';
+import { QrCode } from './components/QrCode';
+import { TransferStatsLine } from './components/TransferStatsLine';
+import { BroadcastPanel } from './components/BroadcastPanel';
+import { InboxPanel } from './components/InboxPanel';
+import { SessionTimeline } from './components/SessionTimeline';
+import { FileThumbnail } from './components/FileThumbnail';
+import { QrScanner, supportsQrScanning } from './components/QrScanner';
+import { TransferState, QueuedFile, BatchManifest, ReceivedFile, ReceivedArchive, SaveMode, TransferProgress, BroadcastMember, InboxSender, TimelineEntry, FileOutcome, PeerDevice, TrustedDevice } from './types';
+import { HEARTBEAT_INTERVAL, SecureChannel } from './protocol/secureChannel';
+import { ChannelAuth, ConnectorAuth, ListenerAuth, PairingCode, PairingGuard } from './protocol/auth';
+import { MessagePacket, SessionPacket, isFromSender } from './protocol/packets';
+import { Transport, fromDataConnection, isStripeConnection } from './protocol/transport';
+import { SenderSession } from './protocol/senderSession';
+import { ReceiverSession } from './protocol/receiverSession';
+import { Broadcast } from './protocol/broadcast';
+import { Inbox } from './protocol/inbox';
+import { IDLE_PROGRESS, transferFlags, transferReducer } from './protocol/transferMachine';
+import { ZIP_MAX_SIZE } from './utils/zip';
+import { PickedFile, collectDroppedFiles, collectInputFiles, pickSaveDirectory, supportsDirectoryPicker } from './utils/folder';
+import { clearOpfsTemp, registerDownloadWorker } from './utils/fileSink';
+import { formatBytes, formatCompression } from './utils/format';
+import { backoffDelay } from './utils/backoff';
+import { ConnectTarget, buildConnectLink, consumeConnectLink, isValidPeerId, parseConnectTarget } from './utils/deepLink';
+import { addHistoryEntry, createHistoryEntry } from './utils/history';
+import { checkOffer, loadAcceptancePolicy } from './utils/acceptance';
+import { formatFingerprint, generateDeviceId, isTrustedDevice, loadDeviceProfile, loadTrustedDevices, revokeDevice, trustDevice } from './utils/identity';
+import { ConnectionSettings, buildPeerOptions, buildRtcConfiguration, loadSettings, saveSettings } from './utils/settings';
+
+// Helper to give queued files a stable key for reordering
+const generateQueueId = () => Math.random().toString(36).slice(2, 10);
+
+const LAST_TARGET_KEY = 'privateshare:last-target';
+const AUTO_COPY_KEY = 'privateshare:auto-copy';
+
+// A ?connect=123456 link skips the landing page and connects as soon as the peer is online;
+// a code param in it answers that peer's pairing check
+const LINKED_TARGET = consumeConnectLink();
+
+// Outgoing, incoming and the connection itself each run through the transfer state machine
+const outgoingReducer = transferReducer('Outgoing');
+const incomingReducer = transferReducer('Incoming');
+const connectionReducer = transferReducer('Connection');
+const INITIAL_CONNECTION: TransferProgress = { ...IDLE_PROGRESS, message: 'Initializing...' };
+
+// Redials of a dropped session, and how long the side that did not dial waits for the other one
+const RECONNECT_ATTEMPTS = 6;
+const RECONNECT_ATTEMPT_TIMEOUT = 10000;
+const RECONNECT_WAIT = 120000;
+// Times the own ID is asked for again after a signalling drop before settling for a temporary one
+const ID_RECLAIM_ATTEMPTS = 4;
+
+interface ReconnectPlan {
+  peerId: string;
+  // Only the side that dialled originally dials again, so the two devices do not cross connections
+  dial: boolean;
+  attempt: number;
+  conn: DataConnection | null;
+}
+
+interface TransferControls {
+  pause(): void;
+  resume(): void;
+  cancel(): void;
+}
 
 const App: React.FC = () => {
   // --- View State ---
-  const [view, setView] = useState<'home' | 'app'>('home');
+  const [view, setView] = useState<'home' | 'app'>(LINKED_TARGET ? 'app' : 'home');
 
   // --- App State ---
   const [myId, setMyId] = useState<string>('');
-  const [targetId, setTargetId] = useState<string>('');
-  const [status, setStatus] = useState<TransferState>(TransferState.IDLE);
-  const [statusMessage, setStatusMessage] = useState<string>('Initializing...');
-  const [activeTab, setActiveTab] = useState<'send' | 'receive'>('send');
+  const [targetId, setTargetId] = useState<string>(() => LINKED_TARGET?.id || localStorage.getItem(LAST_TARGET_KEY) || '');
+  // The pairing itself; transfers running over it are tracked per direction below
+  const [connection, dispatchConnection] = useReducer(connectionReducer, INITIAL_CONNECTION);
+  // Either side can send once paired, so outgoing and incoming transfers run independently
+  const [outgoing, dispatchOutgoing] = useReducer(outgoingReducer, IDLE_PROGRESS);
+  const [incoming, dispatchIncoming] = useReducer(incomingReducer, IDLE_PROGRESS);
+  const [activeTab, setActiveTab] = useState<'send' | 'receive' | 'broadcast'>('send');
   const [isDragging, setIsDragging] = useState(false);
   
-  // File State
-  const [selectedFile, setSelectedFile] = useState<QueuedFile | null>(null);
-  const [incomingMeta, setIncomingMeta] = useState<FileMetadata | null>(null);
-  const [receivedFileUrl, setReceivedFileUrl] = useState<string | null>(null);
-  const [progress, setProgress] = useState<number>(0);
+  // File Handling
+  const [queue, setQueue] = useState<QueuedFile[]>([]);
+  const [incomingBatch, setIncomingBatch] = useState<BatchManifest | null>(null);
+  const [receivedFiles, setReceivedFiles] = useState<ReceivedFile[]>([]);
+  // url is absent when the archive streamed straight into the browser's downloads
+  const [archive, setArchive] = useState<ReceivedArchive | null>(null);
+  const [savedFolderName, setSavedFolderName] = useState<string | null>(null);
+  const [hashProgress, setHashProgress] = useState<number | null>(null);
+  // One-to-many sending, independent of the paired connection above
+  const [broadcastFiles, setBroadcastFiles] = useState<QueuedFile[]>([]);
+  const [broadcastMembers, setBroadcastMembers] = useState<BroadcastMember[]>([]);
+  const [broadcastHashProgress, setBroadcastHashProgress] = useState<number | null>(null);
+  const [roomOpen, setRoomOpen] = useState(false);
+  const [joinCode, setJoinCode] = useState('');
+  // Inbox mode: receive from several senders at once instead of pairing with one
+  const [inboxOpen, setInboxOpen] = useState(false);
+  const [inboxSenders, setInboxSenders] = useState<InboxSender[]>([]);
+  // Chat messages and transfer milestones of the paired session, oldest first
+  const [timeline, setTimeline] = useState<TimelineEntry[]>([]);
+  const [autoCopy, setAutoCopy] = useState(() => localStorage.getItem(AUTO_COPY_KEY) === '1');
+  // Short authentication string from the encrypted handshake; both users compare it out loud
+  const [sasCode, setSasCode] = useState<string | null>(null);
+  // Heartbeat round trip to the paired device, in milliseconds
+  const [rtt, setRtt] = useState<number | null>(null);
+  const [settings, setSettings] = useState<ConnectionSettings>(loadSettings);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showDevices, setShowDevices] = useState(false);
+  const [showAcceptance, setShowAcceptance] = useState(false);
+  // Signed identity of the paired device, if it sent one
+  const [remoteDevice, setRemoteDevice] = useState<PeerDevice | null>(null);
+  const [trustedDevices, setTrustedDevices] = useState<TrustedDevice[]>(loadTrustedDevices);
+  const [scanningTarget, setScanningTarget] = useState(false);
+  // Which side of a serverless pairing is in progress, if any
+  const [manualPairing, setManualPairing] = useState<'send' | 'receive' | null>(null);
+  // This device's pairing code, and the peer we are asked to enter one for
+  const [pairing] = useState(() => new PairingGuard(code => setPairingCode(code)));
+  const [pairingCode, setPairingCode] = useState<PairingCode>(() => pairing.current);
+  const [codePrompt, setCodePrompt] = useState<string | null>(null);
+  const rtcConfig = useMemo(() => buildRtcConfiguration(settings), [settings]);
 
   // --- Refs for PeerJS and cleanup ---
   const peerRef = useRef<Peer | null>(null);
-  const connRef = useRef<DataConnection | null>(null);
-  const incomingMetaRef = useRef<FileMetadata | null>(null);
-  const receivedChunksRef = useRef<Blob[]>([]);
-  const receivedSizeRef = useRef<number>(0);
+  const connRef = useRef<SecureChannel | null>(null);
+  const queueRef = useRef<QueuedFile[]>([]);
   const heartbeatRef = useRef<number | null>(null);
+  // Set while a dropped session is being re-established; see scheduleReconnect
+  const reconnectRef = useRef<ReconnectPlan | null>(null);
+  const reconnectTimerRef = useRef<number | null>(null);
+  const pendingConnectRef = useRef<ConnectTarget | null>(LINKED_TARGET);
+  // Pairing code that came with a link or QR code, used for the next connection that asks for one
+  const pendingCodeRef = useRef<string | null>(null);
+  // Resolves the code prompt shown while an outgoing connection waits for its pairing check
+  const codeRequestRef = useRef<((code: string | null) => void) | null>(null);
+  // PeerJS ID of the connected device; its extra striping connections are adopted by the open channel
+  const remotePeerRef = useRef<string | null>(null);
+  // Device of the current or last paired session; unlike remotePeerRef it survives the disconnect,
+  // so files that fail because of the drop are still recorded against it
+  const historyPeerRef = useRef('manual');
+  // While the broadcast room is open, incoming connections join the broadcast instead of pairing
+  const roomOpenRef = useRef(false);
+  const inboxOpenRef = useRef(false);
+  const autoCopyRef = useRef(autoCopy);
+  // Read when an offer is checked against the acceptance rules
+  const remoteDeviceRef = useRef<PeerDevice | null>(null);
 
   // --- Safety: Prevent accidental close ---
   useEffect(() => {
     const handleBeforeUnload = (e: BeforeUnloadEvent) => {
-      if (status === TransferState.TRANSFERRING || receivedFileUrl) {
+      const broadcasting = broadcastMembers.some(member => transferFlags(member).active);
+      const collecting = inboxSenders.some(sender => transferFlags(sender).active || sender.files.some(f => f.url));
+      if (transferFlags(outgoing).active || transferFlags(incoming).active || broadcasting || collecting || receivedFiles.some(f => f.url) || archive) {
         e.preventDefault();
         e.returnValue = '';
       }
     };
     window.addEventListener('beforeunload', handleBeforeUnload);
     return () => window.removeEventListener('beforeunload', handleBeforeUnload);
-  }, [status, receivedFileUrl]);
+  }, [outgoing.state, incoming.state, broadcastMembers, inboxSenders, receivedFiles, archive]);
+
+  // Sync state to refs for callbacks
+  useEffect(() => {
+    queueRef.current = queue;
+  }, [queue]);
+
+  useEffect(() => {
+    roomOpenRef.current = roomOpen;
+  }, [roomOpen]);
+
+  useEffect(() => {
+    inboxOpenRef.current = inboxOpen;
+  }, [inboxOpen]);
 
-  // Sync state to ref for callbacks
   useEffect(() => {
-    incomingMetaRef.current = incomingMeta;
-  }, [incomingMeta]);
+    remoteDeviceRef.current = remoteDevice;
+  }, [remoteDevice]);
+
+  useEffect(() => {
+    autoCopyRef.current = autoCopy;
+    localStorage.setItem(AUTO_COPY_KEY, autoCopy ? '1' : '0');
+  }, [autoCopy]);
+
+  const updateQueueItem = (id: string, patch: Partial<QueuedFile>) => {
+    setQueue(prev => prev.map(item => item.id === id ? { ...item, ...patch } : item));
+  };
+
+  const updateReceivedFile = (index: number, patch: Partial<ReceivedFile>) => {
+    setReceivedFiles(prev => prev.map((item, i) => i === index ? { ...item, ...patch } : item));
+  };
+
+  // History is best effort; a browser without IndexedDB just does not keep one
+  const recordHistory = (peer: string, outcome: FileOutcome) => {
+    addHistoryEntry(createHistoryEntry(outcome, peer), outcome.blob).catch(err => console.warn('Could not save history entry:', err));
+  };
+
+  // --- Protocol Sessions ---
+  // Created once; they only call state setters, so the first render's callbacks stay valid
+  const [sender] = useState(() => new SenderSession({
+    onStatus: dispatchOutgoing,
+    onItemUpdate: updateQueueItem,
+    onProgress: (progress) => dispatchOutgoing({ type: 'progress', progress }),
+    onStats: (stats) => dispatchOutgoing({ type: 'stats', stats }),
+    onHashProgress: setHashProgress,
+    // The offer that follows resets the progress bar
+    onBatchOffered: () => {
+      setQueue(prev => prev.map(item => item.status === 'completed' ? item : { ...item, status: 'pending', error: undefined }));
+    },
+    onFileDone: (outcome) => recordHistory(historyPeerRef.current, outcome)
+  }));
+
+  const [receiver] = useState(() => new ReceiverSession({
+    onStatus: dispatchIncoming,
+    screenOffer: (manifest) =>
+      checkOffer(manifest, loadAcceptancePolicy(), isTrustedDevice(remoteDeviceRef.current, loadTrustedDevices())),
+    onOffer: (manifest) => {
+      setIncomingBatch(manifest);
+      setReceivedFiles(manifest.files.map(meta => ({ meta, status: 'pending', progress: 0 })));
+      setArchive(null);
+      setSavedFolderName(null);
+      dispatchIncoming({ type: 'offer', message: 'Incoming request...' });
+    },
+    onFileUpdate: updateReceivedFile,
+    onProgress: (progress) => dispatchIncoming({ type: 'progress', progress }),
+    onStats: (stats) => dispatchIncoming({ type: 'stats', stats }),
+    onArchive: setArchive,
+    onSavedToFolder: setSavedFolderName,
+    onCancelled: () => {
+      setIncomingBatch(null);
+      setReceivedFiles([]);
+    },
+    onFileDone: (outcome) => recordHistory(historyPeerRef.current, outcome)
+  }));
+
+  const [broadcast] = useState(() => new Broadcast({
+    onMembersChange: setBroadcastMembers,
+    onHashProgress: setBroadcastHashProgress,
+    onFileDone: recordHistory
+  }));
+
+  const [inbox] = useState(() => new Inbox({ onSendersChange: setInboxSenders, onFileDone: recordHistory }));
+
+  useEffect(() => {
+    sender.stripeChannels = settings.stripeChannels;
+    broadcast.stripeChannels = settings.stripeChannels;
+  }, [sender, broadcast, settings]);
+
+  // Both sessions share one channel with the chat; the packet type says which of them it is for
+  const routePacket = (packet: SessionPacket) => {
+    if (packet.type === 'message') return receiveMessage(packet.payload);
+    return isFromSender(packet) ? receiver.handlePacket(packet) : sender.handlePacket(packet);
+  };
 
   // --- Heartbeat Logic ---
-  const startHeartbeat = (conn: DataConnection) => {
+  // A peer that stopped answering is hung up on, which starts the reconnect below
+  const startHeartbeat = (channel: SecureChannel) => {
     if (heartbeatRef.current) clearInterval(heartbeatRef.current);
     heartbeatRef.current = window.setInterval(() => {
-      if (conn.open) {
-        conn.send({ type: 'heartbeat' });
+      if (channel.isStale) {
+        console.warn(`No heartbeat for ${channel.missedHeartbeats} intervals; closing the connection`);
+        channel.close();
+        return;
       }
-    }, 2000);
+      channel.sendHeartbeat();
+      setRtt(channel.rtt);
+    }, HEARTBEAT_INTERVAL);
   };
 
   const stopHeartbeat = () => {
@@ -80,50 +282,133 @@ const App: React.FC = () => {
       clearInterval(heartbeatRef.current);
       heartbeatRef.current = null;
     }
+    setRtt(null);
+  };
+
+  // --- Reconnect Logic ---
+  // After a verified session drops, the side that dialled redials the same ID with backoff and the
+  // other side waits for it. The pairing check lets the same device straight back in, and both
+  // sessions resume where they stopped.
+  const stopReconnecting = () => {
+    if (reconnectTimerRef.current) clearTimeout(reconnectTimerRef.current);
+    reconnectTimerRef.current = null;
+    reconnectRef.current = null;
+  };
+
+  const closedMessage = () => receiver.hasPartialTransfers ? 'Disconnected. The incoming transfer will resume when they reconnect.' : 'Connection closed.';
+
+  const giveUpReconnecting = () => {
+    stopReconnecting();
+    dispatchConnection({ type: 'reset', message: closedMessage() });
+  };
+
+  const beginReconnect = (peerId: string, dial: boolean) => {
+    stopReconnecting();
+    reconnectRef.current = { peerId, dial, attempt: 0, conn: null };
+    if (!dial) reconnectTimerRef.current = window.setTimeout(giveUpReconnecting, RECONNECT_WAIT);
+    scheduleReconnect();
+  };
+
+  // Runs after each failed attempt
+  const scheduleReconnect = () => {
+    const plan = reconnectRef.current;
+    if (!plan) return;
+    if (!plan.dial) {
+      dispatchConnection({ type: 'lost', message: 'Connection lost. Waiting for the other device to reconnect...' });
+      return;
+    }
+    if (reconnectTimerRef.current) clearTimeout(reconnectTimerRef.current);
+    // An attempt that never opened is dropped before the next one starts
+    if (plan.conn && !plan.conn.open) plan.conn.close();
+    plan.conn = null;
+    if (plan.attempt >= RECONNECT_ATTEMPTS) return giveUpReconnecting();
+
+    const delay = backoffDelay(plan.attempt++);
+    dispatchConnection({ type: 'lost', message: `Connection lost. Reconnecting in ${Math.ceil(delay / 1000)}s (attempt ${plan.attempt} of ${RECONNECT_ATTEMPTS})...` });
+    reconnectTimerRef.current = window.setTimeout(() => {
+      // The signalling server may be gone too; that costs an attempt like any other failure
+      if (!peerRef.current?.open) return scheduleReconnect();
+      dispatchConnection({ type: 'note', message: `Reconnecting... (attempt ${plan.attempt} of ${RECONNECT_ATTEMPTS})` });
+      plan.conn = dialPeer(plan.peerId);
+      reconnectTimerRef.current = window.setTimeout(scheduleReconnect, RECONNECT_ATTEMPT_TIMEOUT);
+    }, delay);
   };
 
   // --- Initialization ---
+  // Leftovers from earlier sessions go once per page load. Later runs of the effect below would
+  // delete files received since then, along with any partial kept for a resume.
+  useEffect(() => {
+    clearOpfsTemp();
+  }, []);
+
   useEffect(() => {
     if (view === 'home') return; // Only init peer when entering app
 
-    const initPeer = () => {
-      const id = generateId();
+    registerDownloadWorker();
+
+    // A retry scheduled by the old peer must not fire after settings changed
+    let cancelled = false;
+    let retryTimer: number | null = null;
+    let retries = 0;
+
+    // Keeps the ID across signalling drops: a peer that lost the server reconnects, one that was torn
+    // down is created again under the same ID. Open data connections are not affected either way.
+    const retryServer = (peer: Peer, id: string) => {
+      if (cancelled || retryTimer) return;
+      if (!connRef.current?.open) dispatchConnection({ type: 'note', message: 'Network issue. Reconnecting...' });
+      retryTimer = window.setTimeout(() => {
+        retryTimer = null;
+        if (cancelled) return;
+        if (peer.destroyed) {
+          initPeer(id);
+        } else if (peer.disconnected) {
+          peer.reconnect();
+        }
+      }, backoffDelay(retries++));
+    };
+
+    // The saved ID, unless another tab or device is using it right now
+    const initPeer = (id = loadDeviceProfile().id) => {
       setMyId(id);
       
-      const peer = new Peer(id, {
-        debug: 1,
-        config: {
-          iceServers: [
-            { urls: 'stun:stun.l.google.com:19302' },
-            { urls: 'stun:stun1.l.google.com:19302' },
-            { urls: 'stun:stun2.l.google.com:19302' },
-            { urls: 'stun:stun3.l.google.com:19302' },
-            { urls: 'stun:stun4.l.google.com:19302' }
-          ],
-          sdpSemantics: 'unified-plan',
-          iceCandidatePoolSize: 10, // Pre-fetch candidates for faster local connection
-        }
-      });
+      const peer = new Peer(id, buildPeerOptions(settings));
 
-      peer.on('open', (id) => {
-        setStatus(TransferState.IDLE);
-        setStatusMessage('Online. Connect via Same Wi-Fi.');
+      peer.on('open', () => {
+        retries = 0;
+        // A paired session or a reconnect in progress keeps its own status
+        if (!connRef.current?.open && !reconnectRef.current) {
+          dispatchConnection({ type: 'reset', message: 'Online. Connect via Same Wi-Fi.' });
+        }
+        const linked = pendingConnectRef.current;
+        if (linked) {
+          pendingConnectRef.current = null;
+          connectToTarget(linked);
+        }
       });
 
       peer.on('connection', (conn) => {
         handleIncomingConnection(conn);
       });
 
+      peer.on('disconnected', () => retryServer(peer, id));
+
       peer.on('error', (err) => {
         console.error('Peer error:', err);
         if (err.type === 'unavailable-id') {
-          initPeer();
+          // Right after a drop the server may still hold the old registration, so the ID is tried again
+          // a few times. Otherwise another tab has it; trusted devices still recognise this one by its key
+          // under a temporary ID.
+          if (retries > 0 && retries < ID_RECLAIM_ATTEMPTS) {
+            retryServer(peer, id);
+          } else {
+            initPeer(generateDeviceId());
+          }
         } else if (err.type === 'peer-unavailable') {
-          setStatusMessage('Peer not found. Check ID.');
-          setStatus(TransferState.FAILED);
-        } else {
-          setStatusMessage('Network issue. Retrying...');
-          setTimeout(initPeer, 2000);
+          // While redialling, the other device may simply not be back online yet
+          if (reconnectRef.current) return scheduleReconnect();
+          dispatchConnection({ type: 'fail', error: 'unreachable', message: 'Peer not found. Check ID.' });
+        } else if (peer.destroyed || peer.disconnected) {
+          retryServer(peer, id);
         }
       });
 
@@ -133,144 +418,351 @@ const App: React.FC = () => {
     initPeer();
 
     return () => {
+      cancelled = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      stopReconnecting();
       stopHeartbeat();
+      broadcast.close();
+      inbox.close();
       peerRef.current?.destroy();
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [view]);
+  }, [view, settings]);
+
+  // Saved settings take effect by recreating the peer (see the effect above)
+  const applySettings = (next: ConnectionSettings) => {
+    if (connRef.current?.open && !window.confirm('Applying settings will disconnect the current session. Continue?')) return;
+    saveSettings(next);
+    setSettings(next);
+    setShowSettings(false);
+  };
 
-  // --- Connection Logic for RECEIVER ---
-  const handleIncomingConnection = (conn: DataConnection) => {
-    connRef.current = conn;
-    setStatus(TransferState.CONNECTED);
-    setStatusMessage(`Connected to sender`);
-    setActiveTab('receive');
-    startHeartbeat(conn);
-
-    // Reset chunks
-    receivedChunksRef.current = [];
-    receivedSizeRef.current = 0;
-
-    conn.on('data', (data: any) => {
-      const packet = data as DataPacket;
-
-      if (packet.type === 'file-meta') {
-        setIncomingMeta(packet.payload);
-        setStatus(TransferState.WAITING_APPROVAL);
-      } 
-      else if (packet.type === 'file-start') {
-        setStatus(TransferState.TRANSFERRING);
-        setStatusMessage('Receiving file...');
-        receivedChunksRef.current = [];
-        receivedSizeRef.current = 0;
-        setProgress(0);
+  // --- Connection Logic ---
+  // Shared by outgoing and incoming PeerJS connections and manually paired data channels.
+  // Whoever dialled, both sides can send and receive once the pairing check has passed.
+  // Manually paired channels skip the check; exchanging the offer by hand already proves presence.
+  const startSession = (transport: Transport, auth?: ChannelAuth, onOpen?: () => void) => {
+    setSasCode(null);
+    setRemoteDevice(null);
+    historyPeerRef.current = remotePeerRef.current ?? 'manual';
+    // Kept so the refusal, not "Connection closed.", is what the user sees once the peer hangs up
+    let refusal: string | null = null;
+    let verified = false;
+    const channelAuth: ChannelAuth | undefined = auth?.role === 'connector'
+      ? { ...auth, onRejected: (reason) => { refusal = reason; auth.onRejected(reason); } }
+      : auth;
+    const channel = new SecureChannel(transport, routePacket, (sas, device) => {
+      if (connRef.current !== channel) return;
+      verified = true;
+      stopReconnecting();
+      setSasCode(sas);
+      setRemoteDevice(device);
+      if (sender.resumePending && queueRef.current.length > 0) {
+        dispatchConnection({ type: 'verified', message: 'Reconnected. Resuming transfer...' });
+        sender.requestSend(queueRef.current);
+      } else {
+        dispatchConnection({ type: 'verified', message: 'Connected! Send or receive files.' });
       }
-      else if (packet.type === 'file-chunk') {
-        // Handle chunk
-        const chunk = packet.payload; // ArrayBuffer
-        receivedChunksRef.current.push(new Blob([chunk]));
-        receivedSizeRef.current += chunk.byteLength;
-        
-        if (incomingMetaRef.current) {
-           const percent = Math.round((receivedSizeRef.current / incomingMetaRef.current.size) * 100);
-           setProgress(percent);
-        }
-      }
-      else if (packet.type === 'file-end') {
-        // Reassemble
-        if (incomingMetaRef.current) {
-            const blob = new Blob(receivedChunksRef.current, { type: incomingMetaRef.current.type });
-            const url = URL.createObjectURL(blob);
-            setReceivedFileUrl(url);
-            setStatus(TransferState.COMPLETED);
-            setStatusMessage('File received successfully!');
-            setProgress(100);
-        }
-      }
-      else if (packet.type === 'reject') {
-        setStatus(TransferState.IDLE);
-        setStatusMessage('Transfer cancelled.');
-        setIncomingMeta(null);
-      }
-    });
+    }, { auth: channelAuth });
+
+    const handleOpen = () => {
+      connRef.current = channel;
+      // Partial transfers live in the sessions, so an interrupted batch can resume on this connection
+      sender.attach(channel);
+      receiver.attach(channel);
+      onOpen?.();
+      startHeartbeat(channel);
+      // A reconnect keeps showing its progress until the check passes
+      if (reconnectRef.current) return;
+      dispatchConnection({ type: 'dial', message: auth?.role === 'connector' ? 'Waiting for the pairing code...' : 'Checking pairing code...' });
+    };
+    if (transport.open) {
+      handleOpen();
+    } else {
+      transport.onOpen(handleOpen);
+    }
+    transport.onStripe?.(stripe => channel.createStripe(stripe));
 
-    conn.on('close', () => {
+    transport.onClose(() => {
+      // The same device already dialled back in on a new connection
+      if (connRef.current && connRef.current !== channel) return;
+      const peerId = remotePeerRef.current;
       stopHeartbeat();
-      setStatus(TransferState.IDLE);
-      setStatusMessage('Sender disconnected.');
+      setSasCode(null);
+      setRemoteDevice(null);
+      remotePeerRef.current = null;
+      sender.detach();
+      receiver.detach();
       connRef.current = null;
+      if (refusal) {
+        stopReconnecting();
+        dispatchConnection({ type: 'fail', error: 'refused', message: refusal });
+        return;
+      }
+      // Manually paired channels have no ID to dial again
+      if (verified && peerId) return beginReconnect(peerId, auth?.role === 'connector');
+      if (reconnectRef.current) return scheduleReconnect();
+      dispatchConnection({ type: 'reset', message: closedMessage() });
     });
+  };
+
+  // The dialled side checks the code; the dialling side supplies it
+  const listenerAuth = (peerId: string): ListenerAuth => ({ role: 'listener', peerId, guard: pairing });
+
+  const connectorAuth = (peerId: string, onRejected: (reason: string) => void): ConnectorAuth => ({
+    role: 'connector',
+    requestCode: () => {
+      const code = pendingCodeRef.current;
+      if (code) {
+        pendingCodeRef.current = null;
+        return Promise.resolve(code);
+      }
+      codeRequestRef.current?.(null);
+      setCodePrompt(peerId);
+      return new Promise(resolve => { codeRequestRef.current = resolve; });
+    },
+    onRejected
+  });
+
+  const answerCodePrompt = (code: string | null) => {
+    codeRequestRef.current?.(code);
+    codeRequestRef.current = null;
+    setCodePrompt(null);
+  };
+
+  const handleIncomingConnection = (conn: DataConnection) => {
+    // Stripes are only adopted by channels that already passed the check, so they are let through here
+    if (!isStripeConnection(conn) && pairing.isBlocked(conn.peer)) {
+      console.warn(`Refused connection from ${conn.peer} after too many wrong pairing codes`);
+      conn.on('open', () => conn.close());
+      return;
+    }
+
+    if (isStripeConnection(conn)) {
+      const stripe = fromDataConnection(conn);
+      if (broadcast.adoptStripe(conn.peer, stripe) || inbox.adoptStripe(conn.peer, stripe)) return;
+      if (connRef.current && conn.peer === remotePeerRef.current) {
+        connRef.current.createStripe(stripe);
+      } else {
+        conn.close();
+      }
+      return;
+    }
+
+    if (roomOpenRef.current) {
+      broadcast.add(conn.peer, fromDataConnection(conn, peerRef.current ?? undefined), listenerAuth(conn.peer));
+      return;
+    }
+    if (inboxOpenRef.current) {
+      inbox.add(conn.peer, fromDataConnection(conn, peerRef.current ?? undefined), listenerAuth(conn.peer));
+      return;
+    }
+    // Already paired: a second device must not take over the running session (inbox mode is for that)
+    if (connRef.current?.open && conn.peer !== remotePeerRef.current) {
+      console.warn(`Refused connection from ${conn.peer} while paired`);
+      conn.on('open', () => conn.close());
+      return;
+    }
+
+    remotePeerRef.current = conn.peer;
+    startSession(fromDataConnection(conn, peerRef.current ?? undefined), listenerAuth(conn.peer));
 
     conn.on('error', () => {
-        setStatus(TransferState.FAILED);
-        setStatusMessage('Connection error occurred.');
+        dispatchConnection({ type: 'fail', error: 'disconnected', message: 'Connection error occurred.' });
     });
   };
 
-  // --- Connection Logic for SENDER ---
-  const connectToPeer = () => {
-    if (!targetId || !peerRef.current) return;
-    
-    setStatus(TransferState.CONNECTING);
-    setStatusMessage('Connecting...');
-
-    const conn = peerRef.current.connect(targetId, { 
+  // Shared by connectToPeer and the reconnect loop
+  const dialPeer = (target: string) => {
+    const peer = peerRef.current!;
+    const conn = peer.connect(target, { 
         reliable: true,
         serialization: 'binary'
     });
+    remotePeerRef.current = target;
+    const auth = connectorAuth(target, (reason) => dispatchConnection({ type: 'fail', error: 'refused', message: reason }));
+    startSession(fromDataConnection(conn, peer), auth, () => localStorage.setItem(LAST_TARGET_KEY, target));
+    return conn;
+  };
+
+  const connectToPeer = (target = targetId) => {
+    if (!isValidPeerId(target) || !peerRef.current) return;
+    stopReconnecting();
     
-    conn.on('open', () => {
-      connRef.current = conn;
-      setStatus(TransferState.CONNECTED);
-      setStatusMessage('Connected! Select a file.');
-      startHeartbeat(conn);
-    });
+    dispatchConnection({ type: 'dial', message: 'Connecting...' });
 
-    conn.on('data', (data: any) => {
-      const packet = data as DataPacket;
-      if (packet.type === 'approve') {
-        startChunkedUpload();
-      } else if (packet.type === 'reject') {
-        setStatus(TransferState.FAILED);
-        setStatusMessage('Receiver rejected.');
-        setTimeout(() => setStatus(TransferState.CONNECTED), 2000);
-      }
-    });
+    const conn = dialPeer(target);
 
-    conn.on('error', (err) => {
-      setStatus(TransferState.FAILED);
-      setStatusMessage('Connection failed. Check ID.');
-    });
-    
-    conn.on('close', () => {
-        stopHeartbeat();
-        if (status !== TransferState.COMPLETED) {
-             setStatus(TransferState.IDLE);
-             setStatusMessage('Connection closed.');
-        }
+    conn.on('error', () => {
+      dispatchConnection({ type: 'fail', error: 'unreachable', message: 'Connection failed. Check ID.' });
     });
 
     setTimeout(() => {
         if(connRef.current?.open === false) {
-             setStatus(TransferState.FAILED);
-             setStatusMessage('Connection timed out. Check ID.');
+             dispatchConnection({ type: 'fail', error: 'unreachable', message: 'Connection timed out. Check ID.' });
         }
     }, 10000);
   };
 
+  // Links and QR codes can carry the peer's pairing code
+  const connectToTarget = (target: ConnectTarget) => {
+    pendingCodeRef.current = target.code;
+    connectToPeer(target.id);
+  };
+
+  // --- Broadcast ---
+  const addBroadcastReceiver = (peerId: string) => {
+    const peer = peerRef.current;
+    if (!peer) return;
+    const conn = peer.connect(peerId, { reliable: true, serialization: 'binary' });
+    broadcast.add(peerId, fromDataConnection(conn, peer), connectorAuth(peerId, (reason) => broadcast.fail(peerId, 'refused', reason)));
+    conn.on('error', () => broadcast.fail(peerId, 'unreachable', 'Could not connect.'));
+  };
+
+  const addBroadcastFiles = (files: PickedFile[]) => {
+    setBroadcastFiles(prev => prev.concat(files.map(({ file, path }) => ({ id: generateQueueId(), file, path, status: 'pending', progress: 0 }))));
+  };
+
+  // --- Inbox ---
+  const toggleInbox = (open: boolean) => {
+    if (!open && !inbox.isEmpty) {
+      if (!window.confirm('Close the inbox? Connected senders are disconnected and their files cleared.')) return;
+      inbox.close();
+    }
+    setInboxOpen(open);
+  };
+
+  // --- Messages ---
+  const pushTimeline = (entry: Omit<TimelineEntry, 'id' | 'at'>) => {
+    setTimeline(prev => [...prev, { id: generateQueueId(), at: Date.now(), ...entry }]);
+  };
+
+  const receiveMessage = ({ text, mime, data }: MessagePacket['payload']) => {
+    // Only images are shown inline; anything else in `data` is dropped
+    const imageUrl = data && mime?.startsWith('image/') ? URL.createObjectURL(new Blob([data], { type: mime })) : undefined;
+    if (!text && !imageUrl) return;
+    pushTimeline({ direction: 'in', text, imageUrl });
+    if (text && autoCopyRef.current) {
+      // Fails quietly when the page is not focused
+      navigator.clipboard.writeText(text).catch(() => undefined);
+    }
+  };
+
+  // Messages go in a single sealed packet, so anything bigger than one chunk is sent as a file instead
+  const sendText = (text: string) => {
+    const channel = connRef.current;
+    if (!channel?.open) return;
+    if (new TextEncoder().encode(text).byteLength > channel.maxChunkSize) {
+      pushTimeline({ direction: 'out', event: 'Message too long to send as text. Save it to a file and send that instead.' });
+      return;
+    }
+    channel.send({ type: 'message', payload: { text } });
+    pushTimeline({ direction: 'out', text });
+  };
+
+  const sendImage = async (file: File) => {
+    const channel = connRef.current;
+    if (!channel?.open) return;
+    if (file.size > channel.maxChunkSize) {
+      addFiles([{ file, path: file.name || 'pasted-image.png' }]);
+      setActiveTab('send');
+      pushTimeline({ direction: 'out', event: 'Image too large for a message; added to the file queue.' });
+      return;
+    }
+    await channel.send({ type: 'message', payload: { mime: file.type, data: await file.arrayBuffer() } });
+    pushTimeline({ direction: 'out', imageUrl: URL.createObjectURL(file) });
+  };
+
+  const clearTimeline = () => {
+    timeline.forEach(entry => entry.imageUrl && URL.revokeObjectURL(entry.imageUrl));
+    setTimeline([]);
+  };
+
+  // File transfers appear in the timeline next to the messages
+  useEffect(() => {
+    if (outgoing.state === TransferState.WAITING_APPROVAL) {
+      pushTimeline({ direction: 'out', event: `Offered ${queue.length} ${queue.length === 1 ? 'file' : 'files'} (${formatBytes(queue.reduce((sum, item) => sum + item.file.size, 0))})` });
+    } else if (outgoing.state === TransferState.COMPLETED || outgoing.state === TransferState.FAILED || outgoing.state === TransferState.CONNECTED) {
+      pushTimeline({ direction: 'out', event: outgoing.message });
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [outgoing.state]);
+
+  useEffect(() => {
+    if (incoming.state === TransferState.WAITING_APPROVAL && incomingBatch) {
+      pushTimeline({ direction: 'in', event: `Offered ${incomingBatch.files.length} ${incomingBatch.files.length === 1 ? 'file' : 'files'} (${formatBytes(incomingBatch.totalSize)})` });
+    } else if (incoming.state === TransferState.COMPLETED || incoming.state === TransferState.FAILED || incoming.state === TransferState.CONNECTED) {
+      pushTimeline({ direction: 'in', event: incoming.message });
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [incoming.state]);
+
+  // Scanned codes may be a pairing link or just the ID
+  const handleScannedTarget = (value: string) => {
+    setScanningTarget(false);
+    const target = parseConnectTarget(value);
+    if (!target) {
+      dispatchConnection({ type: 'note', message: 'That QR code is not a PrivateShare link.' });
+      return;
+    }
+    setTargetId(target.id);
+    connectToTarget(target);
+  };
+
+  // Serverless mode: the modal hands over an open data channel
+  const handleManualPairing = (transport: Transport) => {
+    setManualPairing(null);
+    startSession(transport);
+  };
+
   // --- File Selection & Drag Drop ---
-  const processFile = (file: File) => {
+  const processFile = ({ file, path }: PickedFile): QueuedFile => {
       let previewUrl: string | undefined = undefined;
       if (file.type.startsWith('image/') || file.type.startsWith('video/')) {
         previewUrl = URL.createObjectURL(file);
       }
-      setSelectedFile({ file, previewUrl });
+      return { id: generateQueueId(), file, path, previewUrl, status: 'pending', progress: 0 };
+  };
+
+  const addFiles = (files: PickedFile[]) => {
+      const items = files.map(processFile);
+      if (items.length === 0) return;
+      // A finished batch is replaced rather than appended to
+      const finished = outgoing.state === TransferState.COMPLETED;
+      setQueue(prev => (finished ? [] : prev).concat(items));
+      if (finished) dispatchOutgoing({ type: 'reset' });
+  };
+
+  const removeFromQueue = (id: string) => {
+      setQueue(prev => {
+        const item = prev.find(q => q.id === id);
+        if (item?.previewUrl) URL.revokeObjectURL(item.previewUrl);
+        return prev.filter(q => q.id !== id);
+      });
+  };
+
+  const moveInQueue = (id: string, direction: -1 | 1) => {
+      setQueue(prev => {
+        const from = prev.findIndex(q => q.id === id);
+        const to = from + direction;
+        if (from < 0 || to < 0 || to >= prev.length) return prev;
+        const next = [...prev];
+        [next[from], next[to]] = [next[to], next[from]];
+        return next;
+      });
+  };
+
+  const clearQueue = () => {
+      queue.forEach(item => item.previewUrl && URL.revokeObjectURL(item.previewUrl));
+      setQueue([]);
   };
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      processFile(e.target.files[0]);
+    if (e.target.files && e.target.files.length > 0) {
+      addFiles(collectInputFiles(e.target.files));
     }
+    // Allow picking the same file again
+    e.target.value = '';
   };
 
   const handleDragOver = (e: React.DragEvent) => {
@@ -286,135 +778,163 @@ const App: React.FC = () => {
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      processFile(e.dataTransfer.files[0]);
+    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+      collectDroppedFiles(e.dataTransfer)
+        .then(addFiles)
+        .catch(err => {
+          console.error('Failed to read dropped folder:', err);
+          alert('Could not read the dropped folder.');
+        });
     }
   };
 
   // --- Transfer Logic ---
-  const requestSend = () => {
-    if (!connRef.current || !selectedFile) return;
-    
-    const meta: FileMetadata = {
-      name: selectedFile.file.name,
-      size: selectedFile.file.size,
-      type: selectedFile.file.type
-    };
-
-    connRef.current.send({
-      type: 'file-meta',
-      payload: meta
-    });
-
-    setStatus(TransferState.WAITING_APPROVAL);
-    setStatusMessage('Waiting for acceptance...');
-  };
-
-  const startChunkedUpload = async () => {
-    if (!connRef.current || !selectedFile) return;
-
-    setStatus(TransferState.TRANSFERRING);
-    setStatusMessage('Starting transfer...');
-    
-    // 1. Send signal start
-    connRef.current.send({ type: 'file-start' });
+  // The session reads the queue as it is now; later edits only apply to the next batch
+  const requestSend = () => sender.requestSend(queueRef.current);
 
-    // 2. Loop and send chunks with Optimized Backpressure for LAN
-    // Brief pause to ensure Receiver is ready to receive data
-    await new Promise(r => setTimeout(r, 200));
-
-    setStatusMessage('Sending file...');
-
-    const file = selectedFile.file;
-    let offset = 0;
-
-    while(offset < file.size) {
-        // Connection Check
-        if (!connRef.current.open) {
-            setStatus(TransferState.FAILED);
-            setStatusMessage('Connection lost during transfer');
-            return;
-        }
-
-        // Backpressure Control
-        const dc = (connRef.current as any).dataChannel;
-        if (dc && dc.bufferedAmount > MAX_BUFFER_AMOUNT) {
-            // Wait for buffer to drain significantly
-            await new Promise(r => setTimeout(r, 50));
-            continue; 
-        }
-
-        const chunk = file.slice(offset, offset + CHUNK_SIZE);
-        const buffer = await chunk.arrayBuffer();
-
-        connRef.current.send({
-            type: 'file-chunk',
-            payload: buffer
-        });
-
-        offset += CHUNK_SIZE;
-        const percent = Math.min(100, Math.round((offset / file.size) * 100));
-        setProgress(percent);
-    }
-
-    // 3. Send end signal
-    connRef.current.send({ type: 'file-end' });
-    setStatus(TransferState.COMPLETED);
-    setStatusMessage('Sent Successfully!');
-  };
-
-  const acceptTransfer = () => {
+  // mode is omitted when retrying, so the sink chosen on first accept is kept
+  const acceptTransfer = async (mode?: SaveMode) => {
     if (!connRef.current) return;
     if (!connRef.current.open) {
         alert("Connection lost. Please refresh and try again.");
         return;
     }
-    
-    connRef.current.send({ type: 'approve' });
-    setStatus(TransferState.TRANSFERRING);
-    setStatusMessage('Connecting to transfer...');
+
+    let directory: FileSystemDirectoryHandle | undefined;
+    if (mode === 'directory') {
+        try {
+            directory = await pickSaveDirectory();
+        } catch {
+            // Picker dismissed; leave the request open so another option can be chosen
+            return;
+        }
+    }
+    try {
+        await receiver.accept(mode, directory);
+    } catch (err) {
+        console.error('Could not create archive:', err);
+        alert('Could not create the ZIP file. Try another option.');
+    }
   };
 
   const rejectTransfer = () => {
     if (!connRef.current) return;
-    connRef.current.send({ type: 'reject' });
-    setIncomingMeta(null);
-    setStatus(TransferState.IDLE);
-    setStatusMessage('Request declined.');
+    receiver.reject();
+    setIncomingBatch(null);
+    setReceivedFiles([]);
+  };
+
+  // --- Trusted devices ---
+  const remoteTrusted = isTrustedDevice(remoteDevice, trustedDevices);
+
+  const toggleTrust = () => {
+    if (!remoteDevice) return;
+    setTrustedDevices(remoteTrusted ? revokeDevice(remoteDevice.fingerprint) : trustDevice(remoteDevice, historyPeerRef.current));
+  };
+
+  // Offers from trusted devices skip the prompt and are saved as separate downloads
+  useEffect(() => {
+    if (incoming.state === TransferState.WAITING_APPROVAL && incomingBatch && remoteTrusted) acceptTransfer('files');
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [incoming.state, incomingBatch]);
+
+  useEffect(() => {
+    inboxSenders.forEach(sender => {
+      if (sender.offer && isTrustedDevice(sender.device, trustedDevices)) inbox.accept(sender.peerId);
+    });
+  }, [inbox, inboxSenders, trustedDevices]);
+
+  // Each direction is cleared on its own so a transfer the other way keeps running
+  const resetOutgoing = () => {
+    sender.reset();
+    clearQueue();
+    dispatchOutgoing({ type: 'reset', message: '' });
   };
 
-  const reset = () => {
+  const resetIncoming = () => {
     if (window.confirm("Start new transfer? Unsaved files will be lost.")) {
-      setStatus(TransferState.IDLE);
-      setIncomingMeta(null);
-      setReceivedFileUrl(null);
-      setSelectedFile(null);
-      setProgress(0);
-      setStatusMessage('Online. Connect via Same Wi-Fi.');
+      setIncomingBatch(null);
+      receivedFiles.forEach(f => f.url && URL.revokeObjectURL(f.url));
+      setReceivedFiles([]);
+      if (archive?.url) URL.revokeObjectURL(archive.url);
+      setArchive(null);
+      // Partial files and disk-backed downloads are no longer reachable after this,
+      // unless the inbox still holds files of its own in the same temporary folder
+      receiver.reset().then(() => inbox.isEmpty && clearOpfsTemp());
+      setSavedFolderName(null);
+      dispatchIncoming({ type: 'reset', message: '' });
     }
   };
-
   const copyLink = () => {
       navigator.clipboard.writeText("https://ptop-share.vercel.app/");
       alert("Link copied!");
   }
 
   // --- Render Helpers ---
+  const isConnected = connection.state === TransferState.CONNECTED;
+  const outgoingFlags = transferFlags(outgoing);
+  const incomingFlags = transferFlags(incoming);
+  // Queue can only be edited before the manifest goes out
+  const isQueueEditable = isConnected && outgoingFlags.settled;
+
+  // Batches with relative paths are folders and can be saved as a tree instead of loose downloads
+  const incomingIsFolder = !!incomingBatch?.files.some(f => f.path && f.path.includes('/'));
+  const canZipIncoming = !!incomingBatch && incomingBatch.totalSize < ZIP_MAX_SIZE && incomingBatch.files.length < 0xffff;
+
   const renderStatusIcon = () => {
-    switch (status) {
-      case TransferState.CONNECTING:
-      case TransferState.TRANSFERRING:
-      case TransferState.WAITING_APPROVAL:
-        return <Loader2 className="animate-spin text-blue-400" size={32} />;
-      case TransferState.COMPLETED:
-        return <FileCheck className="text-green-500" size={32} />;
-      case TransferState.FAILED:
-        return <XCircle className="text-red-500" size={32} />;
-      default:
-        return <Wifi className="text-gray-500" size={32} />;
+    const transfers = [outgoing.state, incoming.state];
+    if (connection.state === TransferState.CONNECTING || connection.state === TransferState.RECONNECTING || transfers.some(state => state === TransferState.TRANSFERRING || state === TransferState.WAITING_APPROVAL)) {
+      return <Loader2 className="animate-spin text-blue-400" size={32} />;
     }
+    if (transfers.includes(TransferState.PAUSED)) {
+      return <Pause className="text-yellow-400" size={32} />;
+    }
+    if (connection.state === TransferState.FAILED || transfers.includes(TransferState.FAILED)) {
+      return <XCircle className="text-red-500" size={32} />;
+    }
+    if (transfers.includes(TransferState.COMPLETED)) {
+      return <FileCheck className="text-green-500" size={32} />;
+    }
+    return <Wifi className="text-gray-500" size={32} />;
   };
 
+  // One line per direction under the connection status, so both stay visible whichever tab is open.
+  // An offer still waiting for approval can be withdrawn by the side that made it.
+  const renderTransferSummary = (label: string, transfer: TransferProgress, controls: TransferControls, canWithdraw = false) => transfer.state !== TransferState.IDLE && (
+    <div className="mt-4 text-left relative z-10">
+      <div className="flex justify-between items-center gap-2 text-sm">
+        <span className="text-gray-500 shrink-0">{label}</span>
+        <span className={`truncate flex-1 text-right ${transfer.state === TransferState.FAILED ? 'text-red-400' : transfer.state === TransferState.COMPLETED ? 'text-green-400' : transfer.state === TransferState.PAUSED ? 'text-yellow-400' : 'text-gray-200'}`}>{transfer.message}</span>
+        {transferFlags(transfer).active && (
+          <button
+            onClick={() => transfer.state === TransferState.PAUSED ? controls.resume() : controls.pause()}
+            className="p-1 text-gray-400 hover:text-white"
+            title={transfer.state === TransferState.PAUSED ? 'Resume' : 'Pause'}
+          >
+            {transfer.state === TransferState.PAUSED ? <Play size={16} /> : <Pause size={16} />}
+          </button>
+        )}
+        {(transferFlags(transfer).active || (canWithdraw && transfer.state === TransferState.WAITING_APPROVAL)) && (
+          <button onClick={() => controls.cancel()} className="p-1 text-gray-400 hover:text-red-500" title="Cancel transfer">
+            <XCircle size={16} />
+          </button>
+        )}
+      </div>
+      {transferFlags(transfer).active && (
+        <div className="w-full bg-gray-800 rounded-full h-2.5 mt-2 overflow-hidden">
+          <div className={`${transfer.state === TransferState.PAUSED ? 'bg-yellow-500' : 'bg-blue-600'} h-2.5 rounded-full transition-all duration-300`} style={{ width: `${transfer.progress}%` }}></div>
+        </div>
+      )}
+      {transfer.stats && (transfer.state === TransferState.TRANSFERRING || transfer.state === TransferState.COMPLETED) && (
+        <TransferStatsLine stats={transfer.stats} finished={transfer.state === TransferState.COMPLETED} />
+      )}
+    </div>
+  );
+
+  const renderTabActivity = (transfer: TransferProgress) => transferFlags(transfer).busy && (
+    <Loader2 size={14} className="inline animate-spin ml-2" />
+  );
+
   // --- Views ---
 
   const renderHome = () => (
@@ -509,18 +1029,45 @@ const App: React.FC = () => {
             <div className="flex justify-center mb-4 relative z-10">
                 {renderStatusIcon()}
             </div>
-            <h2 className="text-lg font-medium text-gray-200 relative z-10">{statusMessage}</h2>
-            
-            {status === TransferState.TRANSFERRING && (
-                <div className="w-full bg-gray-800 rounded-full h-2.5 mt-4 overflow-hidden relative z-10">
-                    <div className="bg-blue-600 h-2.5 rounded-full transition-all duration-300" style={{ width: `${progress}%` }}></div>
+            <h2 className="text-lg font-medium text-gray-200 relative z-10">{connection.message}</h2>
+            {connection.state === TransferState.RECONNECTING && (
+                <button onClick={giveUpReconnecting} className="mt-2 relative z-10 text-xs text-gray-400 hover:text-white underline">
+                    Stop reconnecting
+                </button>
+            )}
+
+            {sasCode && (
+                <div className="mt-3 relative z-10 inline-flex flex-col items-center bg-gray-950/60 border border-gray-700 rounded-xl px-4 py-2">
+                    <span className="flex items-center gap-1 text-xs text-gray-400"><Lock size={12} className="text-green-400" /> End-to-end encrypted • Verification code</span>
+                    <span className="font-mono text-xl font-bold text-green-400 tracking-widest">{sasCode}</span>
+                    <span className="text-[11px] text-gray-500">Check that the other device shows the same code</span>
+                    {rtt !== null && <span className="text-[11px] text-gray-500">Round trip {rtt} ms</span>}
+                    {remoteDevice ? (
+                        <div className="mt-2 pt-2 border-t border-gray-800 flex items-center gap-2 text-xs">
+                            <span className="text-gray-300 truncate max-w-[10rem]" title={formatFingerprint(remoteDevice.fingerprint)}>{remoteDevice.name || 'Unnamed device'}</span>
+                            {remoteTrusted ? (
+                                <button onClick={toggleTrust} className="flex items-center gap-1 text-green-400 hover:text-red-400" title="Stop accepting files from this device automatically">
+                                    <ShieldCheck size={12} /> Trusted
+                                </button>
+                            ) : (
+                                <button onClick={toggleTrust} className="flex items-center gap-1 text-blue-400 hover:text-blue-300" title="Accept files from this device without asking">
+                                    <ShieldCheck size={12} /> Trust this device
+                                </button>
+                            )}
+                        </div>
+                    ) : (
+                        <span className="mt-2 flex items-center gap-1 text-[11px] text-yellow-500"><ShieldOff size={12} /> Device identity not verified</span>
+                    )}
                 </div>
             )}
             
-            {status === TransferState.TRANSFERRING && statusMessage.includes('Connecting to transfer') && (
+            {renderTransferSummary('Sending', outgoing, sender, true)}
+            {renderTransferSummary('Receiving', incoming, receiver)}
+            
+            {incomingFlags.canRetryStart && (
                 <div className="mt-4 relative z-10">
                     <button 
-                        onClick={acceptTransfer}
+                        onClick={() => acceptTransfer()}
                         className="text-sm bg-gray-700 hover:bg-gray-600 px-4 py-2 rounded-full flex items-center gap-2 mx-auto transition-colors"
                     >
                         <RefreshCw size={14} /> Retry Connection
@@ -535,186 +1082,465 @@ const App: React.FC = () => {
                 onClick={() => setActiveTab('send')}
                 className={`flex-1 py-3 rounded-lg text-sm font-bold transition-all ${activeTab === 'send' ? 'bg-blue-600 text-white shadow-lg' : 'text-gray-400 hover:text-white'}`}
             >
-                SEND
+                SEND{renderTabActivity(outgoing)}
             </button>
             <button 
                 onClick={() => setActiveTab('receive')}
                 className={`flex-1 py-3 rounded-lg text-sm font-bold transition-all ${activeTab === 'receive' ? 'bg-green-600 text-white shadow-lg' : 'text-gray-400 hover:text-white'}`}
             >
                 RECEIVE
+                {renderTabActivity(incoming) || (inboxSenders.some(sender => transferFlags(sender).active || sender.offer) && (
+                    <Loader2 size={14} className="inline animate-spin ml-2" />
+                ))}
+            </button>
+            <button 
+                onClick={() => setActiveTab('broadcast')}
+                className={`flex-1 py-3 rounded-lg text-sm font-bold transition-all ${activeTab === 'broadcast' ? 'bg-purple-600 text-white shadow-lg' : 'text-gray-400 hover:text-white'}`}
+            >
+                BROADCAST
+                {broadcastMembers.some(member => transferFlags(member).busy) && (
+                    <Loader2 size={14} className="inline animate-spin ml-2" />
+                )}
             </button>
         </div>
 
         {/* Sender View */}
         {activeTab === 'send' && (
             <div className="space-y-4 animate-fade-in">
-                {(status === TransferState.IDLE || status === TransferState.FAILED) && (
+                {(connection.state === TransferState.IDLE || connection.state === TransferState.FAILED) && (
                     <div className="bg-gray-800/50 p-6 rounded-2xl border border-gray-700">
-                        <label className="block text-gray-400 text-sm mb-2">Receiver's 6-Digit ID</label>
-                        <div className="flex gap-2 w-full">
-                            <input 
-                                type="number" 
-                                placeholder="000000"
-                                value={targetId}
-                                onChange={(e) => setTargetId(e.target.value.slice(0, 6))}
-                                className="flex-1 min-w-0 bg-gray-950 border border-gray-700 text-white text-center text-xl sm:text-2xl tracking-widest rounded-xl p-3 focus:outline-none focus:border-blue-500 transition-colors"
-                            />
-                            <button 
-                                onClick={connectToPeer}
-                                disabled={targetId.length !== 6}
-                                className="bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed text-white px-4 sm:px-6 rounded-xl transition-all"
-                            >
-                                <Wifi size={24} />
-                            </button>
-                        </div>
+                        <label className="block text-gray-400 text-sm mb-2">Other device's 6-Digit ID</label>
+                        {scanningTarget ? (
+                            <QrScanner onScan={handleScannedTarget} onClose={() => setScanningTarget(false)} />
+                        ) : (
+                            <div className="flex gap-2 w-full">
+                                <input 
+                                    type="text" 
+                                    inputMode="numeric"
+                                    autoComplete="off"
+                                    placeholder="000000"
+                                    value={targetId}
+                                    onChange={(e) => setTargetId(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                                    className="flex-1 min-w-0 bg-gray-950 border border-gray-700 text-white text-center text-xl sm:text-2xl tracking-widest rounded-xl p-3 focus:outline-none focus:border-blue-500 transition-colors"
+                                />
+                                {supportsQrScanning() && (
+                                    <button 
+                                        onClick={() => setScanningTarget(true)}
+                                        title="Scan the receiver's QR code"
+                                        className="bg-gray-700 hover:bg-gray-600 text-white px-3 sm:px-4 rounded-xl transition-all"
+                                    >
+                                        <Camera size={24} />
+                                    </button>
+                                )}
+                                <button 
+                                    onClick={() => connectToPeer()}
+                                    disabled={targetId.length !== 6}
+                                    className="bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed text-white px-4 sm:px-6 rounded-xl transition-all"
+                                >
+                                    <Wifi size={24} />
+                                </button>
+                            </div>
+                        )}
+                        <button onClick={() => setManualPairing('send')} className="mt-3 text-xs text-gray-500 hover:text-blue-400 flex items-center gap-1 mx-auto">
+                            <QrCodeIcon size={14} /> No internet? Pair without a server
+                        </button>
                     </div>
                 )}
 
-                {(status === TransferState.CONNECTED || status === TransferState.COMPLETED || status === TransferState.WAITING_APPROVAL) && (
+                {(isConnected || (outgoing.state !== TransferState.IDLE && queue.length > 0)) && (
                     <div className="bg-gray-800/50 p-6 rounded-2xl border border-gray-700"
                          onDragOver={handleDragOver}
                          onDragLeave={handleDragLeave}
                          onDrop={handleDrop}
                     >
-                        {!selectedFile ? (
-                            <label className={`flex flex-col items-center justify-center w-full h-40 border-2 border-dashed rounded-xl cursor-pointer transition-all group ${isDragging ? 'border-blue-500 bg-blue-500/10' : 'border-gray-600 hover:bg-gray-800/80 hover:border-blue-500'}`}>
-                                <div className="flex flex-col items-center justify-center pt-5 pb-6">
-                                    <UploadCloud className={`w-10 h-10 mb-3 ${isDragging ? 'text-blue-400' : 'text-gray-400 group-hover:text-blue-500'}`} />
-                                    <p className="mb-2 text-sm text-gray-400 text-center"><span className="font-semibold">Click to upload</span> or drag and drop</p>
-                                    <p className="text-xs text-gray-500">Original Resolution Preserved</p>
-                                </div>
-                                <input type="file" className="hidden" onChange={handleFileSelect} />
-                            </label>
+                        {queue.length === 0 ? (
+                            <>
+                                <label className={`flex flex-col items-center justify-center w-full h-40 border-2 border-dashed rounded-xl cursor-pointer transition-all group ${isDragging ? 'border-blue-500 bg-blue-500/10' : 'border-gray-600 hover:bg-gray-800/80 hover:border-blue-500'}`}>
+                                    <div className="flex flex-col items-center justify-center pt-5 pb-6">
+                                        <UploadCloud className={`w-10 h-10 mb-3 ${isDragging ? 'text-blue-400' : 'text-gray-400 group-hover:text-blue-500'}`} />
+                                        <p className="mb-2 text-sm text-gray-400 text-center"><span className="font-semibold">Click to upload</span> or drag and drop</p>
+                                        <p className="text-xs text-gray-500">Multiple files or folders • Original Resolution Preserved</p>
+                                    </div>
+                                    <input type="file" multiple className="hidden" onChange={handleFileSelect} />
+                                </label>
+                                <label className="mt-3 flex items-center justify-center gap-2 text-sm text-blue-400 hover:text-blue-300 cursor-pointer">
+                                    <FolderOpen size={16} /> Choose a folder
+                                    <input type="file" className="hidden" onChange={handleFileSelect} {...({ webkitdirectory: '' } as React.InputHTMLAttributes<HTMLInputElement>)} />
+                                </label>
+                            </>
                         ) : (
                             <div className="space-y-4">
-                                <div className="relative rounded-xl overflow-hidden bg-gray-900 border border-gray-700 group">
-                                    {selectedFile.previewUrl ? (
-                                        selectedFile.file.type.startsWith('video') ? (
-                                            <video src={selectedFile.previewUrl} className="w-full h-48 object-contain bg-black" controls={false} />
+                                {queue.length === 1 && (
+                                    <div className="relative rounded-xl overflow-hidden bg-gray-900 border border-gray-700 group">
+                                        {queue[0].previewUrl ? (
+                                            queue[0].file.type.startsWith('video') ? (
+                                                <video src={queue[0].previewUrl} className="w-full h-48 object-contain bg-black" controls={false} />
+                                            ) : (
+                                                <img src={queue[0].previewUrl} alt="Preview" className="w-full h-48 object-contain bg-black" />
+                                            )
                                         ) : (
-                                            <img src={selectedFile.previewUrl} alt="Preview" className="w-full h-48 object-contain bg-black" />
-                                        )
-                                    ) : (
-                                        <div className="flex flex-col items-center justify-center h-48">
-                                            {selectedFile.file.name.endsWith('.apk') ? <Smartphone size={48} className="text-green-500 mb-2"/> : <FileText size={48} className="text-blue-500 mb-2"/>}
-                                            <span className="text-gray-400 text-sm">{selectedFile.file.name.split('.').pop()?.toUpperCase()} File</span>
-                                        </div>
+                                            <div className="flex flex-col items-center justify-center h-48">
+                                                {queue[0].file.name.endsWith('.apk') ? <Smartphone size={48} className="text-green-500 mb-2"/> : <FileText size={48} className="text-blue-500 mb-2"/>}
+                                                <span className="text-gray-400 text-sm">{queue[0].file.name.split('.').pop()?.toUpperCase()} File</span>
+                                            </div>
+                                        )}
+                                    </div>
+                                )}
+
+                                {/* Queue */}
+                                <ul className="space-y-2 max-h-72 overflow-y-auto">
+                                    {queue.map((item, index) => (
+                                        <li key={item.id} className="bg-gray-900 border border-gray-700 rounded-xl px-3 py-2">
+                                            <div className="flex items-center gap-2 text-sm">
+                                                {item.previewUrl && item.file.type.startsWith('image/') ? (
+                                                    <img src={item.previewUrl} alt="" className="w-8 h-8 rounded object-cover shrink-0" />
+                                                ) : (
+                                                    <FileText size={20} className="text-blue-500 shrink-0" />
+                                                )}
+                                                <span className="truncate flex-1 text-gray-200">{item.path || item.file.name}</span>
+                                                <span className="text-gray-500 text-xs shrink-0">{formatBytes(item.file.size)}</span>
+                                                {item.compression && (
+                                                    <span className="text-[11px] text-teal-400 shrink-0" title="Compressed in transit, saved unchanged">{formatCompression(item.compression)}</span>
+                                                )}
+                                                {isQueueEditable ? (
+                                                    <div className="flex items-center shrink-0">
+                                                        <button onClick={() => moveInQueue(item.id, -1)} disabled={index === 0} className="p-1 text-gray-400 hover:text-white disabled:opacity-30">
+                                                            <ChevronUp size={16} />
+                                                        </button>
+                                                        <button onClick={() => moveInQueue(item.id, 1)} disabled={index === queue.length - 1} className="p-1 text-gray-400 hover:text-white disabled:opacity-30">
+                                                            <ChevronDown size={16} />
+                                                        </button>
+                                                        <button onClick={() => removeFromQueue(item.id)} className="p-1 text-gray-400 hover:text-red-500">
+                                                            <XCircle size={16} />
+                                                        </button>
+                                                    </div>
+                                                ) : item.status === 'completed' ? (
+                                                    <FileCheck size={16} className="text-green-500 shrink-0" />
+                                                ) : item.status === 'failed' ? (
+                                                    <span title={item.error}><XCircle size={16} className="text-red-500 shrink-0" /></span>
+                                                ) : null}
+                                            </div>
+                                            {item.status !== 'pending' && (
+                                                <div className="w-full bg-gray-800 rounded-full h-1 mt-2 overflow-hidden">
+                                                    <div className={`h-1 rounded-full transition-all duration-300 ${item.status === 'failed' ? 'bg-red-500' : item.status === 'completed' ? 'bg-green-500' : 'bg-blue-600'}`} style={{ width: `${item.progress}%` }}></div>
+                                                </div>
+                                            )}
+                                            {item.status === 'failed' && item.error && (
+                                                <p className="text-xs text-red-400 mt-1">{item.error}</p>
+                                            )}
+                                            {item.status === 'completed' && item.sha256 && (
+                                                <p className="text-[10px] text-gray-500 mt-1 font-mono break-all select-all">SHA-256 {item.sha256}</p>
+                                            )}
+                                        </li>
+                                    ))}
+                                </ul>
+
+                                <div className="flex justify-between items-center text-sm text-gray-400 px-1">
+                                    <span>{queue.length} {queue.length === 1 ? 'file' : 'files'} • {formatBytes(queue.reduce((sum, item) => sum + item.file.size, 0))}</span>
+                                    {(isQueueEditable || outgoing.state === TransferState.COMPLETED) && (
+                                        <label className="flex items-center gap-1 cursor-pointer text-blue-400 hover:text-blue-300">
+                                            <Plus size={14} /> {isQueueEditable ? 'Add more' : 'Send more'}
+                                            <input type="file" multiple className="hidden" onChange={handleFileSelect} />
+                                        </label>
                                     )}
-                                    <button 
-                                        onClick={() => setSelectedFile(null)}
-                                        className="absolute top-2 right-2 bg-black/50 hover:bg-red-500 text-white p-1 rounded-full transition-colors"
-                                    >
-                                        <XCircle size={20} />
-                                    </button>
-                                </div>
-                                
-                                <div className="flex justify-between text-sm text-gray-400 px-1">
-                                    <span className="truncate max-w-[200px]">{selectedFile.file.name}</span>
-                                    <span>{formatBytes(selectedFile.file.size)}</span>
                                 </div>
 
-                                {status === TransferState.WAITING_APPROVAL ? (
+                                {outgoing.state === TransferState.WAITING_APPROVAL ? (
                                     <div className="space-y-2">
                                         <p className="text-center text-sm text-yellow-500 animate-pulse">Waiting for receiver to accept...</p>
                                         <button 
-                                            onClick={startChunkedUpload}
+                                            onClick={() => sender.requestSend(queue)}
                                             className="w-full bg-gray-700 hover:bg-gray-600 text-white text-sm font-bold py-3 rounded-xl transition-all flex items-center justify-center gap-2"
                                         >
-                                            <Play size={16} />
-                                            FORCE START (If stuck)
+                                            <RefreshCw size={16} />
+                                            ASK AGAIN (If stuck)
                                         </button>
                                     </div>
-                                ) : (
+                                ) : isQueueEditable && (
                                     <button 
-                                        onClick={requestSend}
+                                        onClick={() => requestSend()}
+                                        disabled={hashProgress !== null}
                                         className="w-full bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white font-bold py-4 rounded-xl shadow-lg shadow-blue-900/20 active:scale-95 transition-all flex items-center justify-center gap-2"
                                     >
-                                        <Send size={20} />
-                                        SEND ORIGINAL
+                                        {hashProgress !== null ? (
+                                            <>
+                                                <Loader2 size={20} className="animate-spin" />
+                                                HASHING {hashProgress}%
+                                            </>
+                                        ) : (
+                                            <>
+                                                <Send size={20} />
+                                                SEND ORIGINAL
+                                            </>
+                                        )}
                                     </button>
                                 )}
                             </div>
                         )}
                     </div>
                 )}
+
+                {outgoingFlags.finished && (
+                    <button onClick={resetOutgoing} className="block mx-auto text-gray-500 hover:text-white text-sm underline underline-offset-4">
+                        {outgoingFlags.resumable ? 'Discard and Start New Transfer' : 'Start New Transfer'}
+                    </button>
+                )}
             </div>
         )}
 
         {/* Receiver View */}
         {activeTab === 'receive' && (
+            <label className="flex items-start gap-2 text-sm text-gray-300 mb-4 bg-gray-900 border border-gray-800 rounded-xl p-3">
+                <input type="checkbox" className="mt-1" checked={inboxOpen} onChange={e => toggleInbox(e.target.checked)} />
+                <span>
+                    Inbox mode
+                    <span className="block text-xs text-gray-500">Accept files from several senders at the same time, e.g. to collect them from a whole team.</span>
+                </span>
+            </label>
+        )}
+
+        {activeTab === 'receive' && inboxOpen && (
+            <InboxPanel
+                myId={myId}
+                pairing={pairingCode}
+                onRenewPairing={() => pairing.rotate()}
+                senders={inboxSenders}
+                onAccept={(peerId) => inbox.accept(peerId)}
+                onReject={(peerId) => inbox.reject(peerId)}
+                onRemove={(peerId) => inbox.remove(peerId)}
+            />
+        )}
+
+        {activeTab === 'receive' && !inboxOpen && (
              <div className="space-y-4 animate-fade-in">
-                 {status === TransferState.IDLE && (
+                 {!isConnected && connection.state !== TransferState.CONNECTING && connection.state !== TransferState.RECONNECTING && (
                      <div className="bg-gray-800/50 p-8 rounded-2xl border border-gray-700 text-center flex flex-col items-center">
                          <div className="w-16 h-16 bg-gray-900 rounded-full flex items-center justify-center mb-4 border border-gray-700 shadow-inner">
                              <Wifi className="text-green-500 animate-pulse" size={32} />
                          </div>
                          <h3 className="text-xl font-bold text-white mb-2">Ready to Receive</h3>
-                         <p className="text-gray-400 text-sm">Tell the sender to enter your ID:</p>
+                         <p className="text-gray-400 text-sm">Let the sender scan this code or enter your ID:</p>
+                         {myId && (
+                             <div className="mt-4 p-2 bg-white rounded-xl">
+                                 <QrCode value={buildConnectLink(myId, pairingCode.code)} size={180} />
+                             </div>
+                         )}
                          <p className="text-3xl font-mono text-green-400 font-bold mt-4 tracking-widest select-all bg-gray-900 px-4 py-2 rounded-lg border border-gray-800">{myId}</p>
+                         <p className="text-gray-500 text-xs mt-3 mb-1">Typing the ID? They will also need this code, which is valid for a few minutes:</p>
+                         <PairingCodeBadge pairing={pairingCode} onRenew={() => pairing.rotate()} />
+                         <div className="mt-6 w-full">
+                             <p className="text-gray-400 text-sm mb-2">Or join a broadcast room:</p>
+                             <div className="flex gap-2">
+                                 <input 
+                                     type="text" 
+                                     inputMode="numeric"
+                                     autoComplete="off"
+                                     placeholder="Room code"
+                                     value={joinCode}
+                                     onChange={(e) => setJoinCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                                     className="flex-1 min-w-0 bg-gray-950 border border-gray-700 text-white text-center text-lg tracking-widest rounded-xl p-2 focus:outline-none focus:border-green-500"
+                                 />
+                                 <button 
+                                     onClick={() => connectToPeer(joinCode)}
+                                     disabled={!isValidPeerId(joinCode)}
+                                     className="bg-green-600 hover:bg-green-500 disabled:opacity-50 text-white px-4 rounded-xl text-sm font-bold"
+                                 >
+                                     Join
+                                 </button>
+                             </div>
+                         </div>
+                         <button onClick={() => setManualPairing('receive')} className="mt-4 text-xs text-gray-500 hover:text-green-400 flex items-center gap-1">
+                             <QrCodeIcon size={14} /> No internet? Pair without a server
+                         </button>
                      </div>
                  )}
 
-                 {/* Incoming Request Modal */}
-                 <Modal isOpen={!!incomingMeta && status === TransferState.WAITING_APPROVAL} title="Incoming File Request">
-                    <div className="flex flex-col items-center text-center">
-                        {incomingMeta?.type.startsWith('image') ? <ImageIcon size={48} className="text-purple-500 mb-4" /> : <FileText size={48} className="text-blue-500 mb-4" />}
-                        <p className="text-lg font-bold text-white mb-1 break-all">{incomingMeta?.name}</p>
-                        <p className="text-sm text-gray-400 mb-6">{incomingMeta ? formatBytes(incomingMeta.size) : '0 B'} • Original Quality</p>
-                        
-                        <div className="flex gap-4 w-full">
-                            <button 
-                                onClick={rejectTransfer}
-                                className="flex-1 py-3 bg-gray-700 hover:bg-red-600 text-white rounded-xl transition-colors font-semibold"
-                            >
-                                Decline
-                            </button>
-                            <button 
-                                onClick={acceptTransfer}
-                                className="flex-1 py-3 bg-green-600 hover:bg-green-500 text-white rounded-xl transition-colors font-bold shadow-lg shadow-green-900/20 active:scale-95"
-                            >
-                                Accept
-                            </button>
-                        </div>
-                    </div>
-                 </Modal>
+                 {isConnected && incomingFlags.settled && receivedFiles.length === 0 && (
+                     <div className="bg-gray-800/50 p-6 rounded-2xl border border-gray-700 text-center text-sm text-gray-400">
+                         Files sent from the other device will appear here.
+                     </div>
+                 )}
 
-                 {/* Download Link */}
-                 {status === TransferState.COMPLETED && receivedFileUrl && (
-                     <div className="bg-green-900/20 border border-green-500/30 p-6 rounded-2xl text-center">
-                         <FileCheck className="text-green-500 mx-auto mb-3" size={48} />
-                         <h3 className="text-xl font-bold text-white mb-4">Transfer Complete</h3>
+                 {/* Download Links */}
+                 {(incomingFlags.active || incoming.state === TransferState.COMPLETED || incoming.state === TransferState.CONNECTED) && receivedFiles.length > 0 && (
+                     <div className={`${incoming.state === TransferState.COMPLETED ? 'bg-green-900/20 border-green-500/30' : 'bg-gray-800/50 border-gray-700'} border p-6 rounded-2xl text-center`}>
+                         {incoming.state === TransferState.COMPLETED && (
+                             <>
+                                 <FileCheck className="text-green-500 mx-auto mb-3" size={48} />
+                                 <h3 className="text-xl font-bold text-white mb-4">Transfer Complete</h3>
+                                 {archive?.url && (
+                                     <a 
+                                         href={archive.url} 
+                                         download={archive.name}
+                                         className="mb-4 w-full bg-green-600 hover:bg-green-500 text-white font-bold py-4 rounded-xl shadow-lg flex items-center justify-center gap-2 transition-all active:scale-95"
+                                     >
+                                         <Archive size={20} />
+                                         SAVE {archive.name}
+                                     </a>
+                                 )}
+                                 {archive && !archive.url && (
+                                     <p className="mb-4 text-sm text-green-400 flex items-center justify-center gap-2">
+                                         <Archive size={16} /> {archive.name} saved to your Downloads
+                                     </p>
+                                 )}
+                                 {savedFolderName && (
+                                     <p className="mb-4 text-sm text-green-400 flex items-center justify-center gap-2">
+                                         <FolderOpen size={16} /> Saved into "{savedFolderName}"
+                                     </p>
+                                 )}
+                             </>
+                         )}
                          <div className="flex flex-col gap-3">
-                            <a 
-                                href={receivedFileUrl} 
-                                download={incomingMeta?.name || 'downloaded_file'}
-                                className="w-full bg-green-600 hover:bg-green-500 text-white font-bold py-4 rounded-xl shadow-lg flex items-center justify-center gap-2 transition-all active:scale-95"
-                            >
-                                <Download size={20} />
-                                SAVE TO DEVICE
-                            </a>
-                            
-                            {/* If image/video, show preview */}
-                            {incomingMeta?.type.startsWith('image/') && (
-                                <img src={receivedFileUrl} alt="Received" className="rounded-lg mt-2 max-h-60 object-contain mx-auto border border-gray-700" />
-                            )}
-                            {incomingMeta?.type.startsWith('video/') && (
-                                <video src={receivedFileUrl} controls className="rounded-lg mt-2 max-h-60 mx-auto border border-gray-700" />
-                            )}
+                            {receivedFiles.map((item, index) => (
+                                <div key={index} className="bg-gray-900 border border-gray-700 rounded-xl p-3 text-left">
+                                    <div className="flex items-center gap-2 text-sm">
+                                        <span className="truncate flex-1 text-gray-200">{item.meta.path || item.meta.name}</span>
+                                        <span className="text-gray-500 text-xs shrink-0">{formatBytes(item.meta.size)}</span>
+                                        {item.compression && (
+                                            <span className="text-[11px] text-teal-400 shrink-0" title="Compressed in transit, saved unchanged">{formatCompression(item.compression)}</span>
+                                        )}
+                                        {item.status === 'failed' && <XCircle size={16} className="text-red-500 shrink-0" />}
+                                    </div>
+                                    {item.status === 'transferring' && (
+                                        <div className="w-full bg-gray-800 rounded-full h-1 mt-2 overflow-hidden">
+                                            <div className="bg-blue-600 h-1 rounded-full transition-all duration-300" style={{ width: `${item.progress}%` }}></div>
+                                        </div>
+                                    )}
+                                    {item.status === 'failed' && (
+                                        <p className="text-xs text-red-400 mt-1">{item.error || 'Transfer failed'}</p>
+                                    )}
+                                    {item.verified && (
+                                        <p className="text-[10px] text-gray-500 mt-1 font-mono break-all select-all">
+                                            <span className="text-green-400 font-sans font-semibold">SHA-256 verified </span>{item.meta.sha256}
+                                        </p>
+                                    )}
+                                    {item.status === 'completed' && item.savedToDisk && receiver.mode === 'files' && (
+                                        <p className="text-xs text-green-400 mt-1 flex items-center gap-1"><Download size={12} /> Saved to your Downloads</p>
+                                    )}
+                                    {item.status === 'completed' && item.url && (
+                                        <>
+                                            {/* If image/video, show preview */}
+                                            {item.meta.type.startsWith('image/') && (
+                                                <img src={item.url} alt="Received" className="rounded-lg mt-2 max-h-60 object-contain mx-auto border border-gray-700" />
+                                            )}
+                                            {item.meta.type.startsWith('video/') && (
+                                                <video src={item.url} controls className="rounded-lg mt-2 max-h-60 mx-auto border border-gray-700" />
+                                            )}
+                                            <a 
+                                                href={item.url} 
+                                                download={item.meta.name || 'downloaded_file'}
+                                                className="mt-2 w-full bg-green-600 hover:bg-green-500 text-white font-bold py-3 rounded-xl shadow-lg flex items-center justify-center gap-2 transition-all active:scale-95"
+                                            >
+                                                <Download size={18} />
+                                                SAVE TO DEVICE
+                                            </a>
+                                        </>
+                                    )}
+                                </div>
+                            ))}
                             <p className="text-xs text-gray-500 mt-2">Data cleared from memory after download.</p>
                          </div>
                      </div>
                  )}
+
+                 {(incomingFlags.finished || (incoming.state === TransferState.CONNECTED && receivedFiles.length > 0)) && (
+                     <button onClick={resetIncoming} className="block mx-auto text-gray-500 hover:text-white text-sm underline underline-offset-4">
+                         Start New Transfer
+                     </button>
+                 )}
              </div>
         )}
 
-        {(status === TransferState.COMPLETED || status === TransferState.FAILED) && (
-            <button 
-                onClick={reset}
-                className="mt-6 text-gray-500 hover:text-white text-sm underline underline-offset-4"
-            >
-                Start New Transfer
-            </button>
+        {/* Broadcast View */}
+        {activeTab === 'broadcast' && (
+            <BroadcastPanel
+                roomCode={myId}
+                pairing={pairingCode}
+                onRenewPairing={() => pairing.rotate()}
+                roomOpen={roomOpen}
+                onRoomOpenChange={setRoomOpen}
+                members={broadcastMembers}
+                onAddReceiver={addBroadcastReceiver}
+                onRemoveReceiver={(peerId) => broadcast.remove(peerId)}
+                files={broadcastFiles}
+                onAddFiles={addBroadcastFiles}
+                onRemoveFile={(id) => setBroadcastFiles(prev => prev.filter(item => item.id !== id))}
+                hashProgress={broadcastHashProgress}
+                onSend={() => broadcast.send(broadcastFiles)}
+            />
+        )}
+
+        {/* Session Timeline: messages alongside the paired transfers */}
+        {(activeTab === 'send' || (activeTab === 'receive' && !inboxOpen)) && (isConnected || timeline.length > 0) && (
+            <SessionTimeline
+                entries={timeline}
+                canSend={isConnected}
+                onSendText={sendText}
+                onSendImage={sendImage}
+                autoCopy={autoCopy}
+                onAutoCopyChange={setAutoCopy}
+                onClear={clearTimeline}
+            />
         )}
+
+        {/* Incoming Request Modal: shown on either tab */}
+        <Modal isOpen={!!incomingBatch && incoming.state === TransferState.WAITING_APPROVAL && !remoteTrusted} title={incomingBatch && incomingBatch.files.length > 1 ? `Incoming Files (${incomingBatch.files.length})` : 'Incoming File Request'}>
+           <div className="flex flex-col items-center text-center">
+               {incomingBatch?.files.length === 1 ? (
+                   <>
+                       <FileThumbnail meta={incomingBatch.files[0]} size="large" />
+                       <p className="text-lg font-bold text-white mb-1 break-all">{incomingBatch.files[0].name}</p>
+                   </>
+               ) : (
+                   <ul className="w-full text-left space-y-1 mb-3 max-h-48 overflow-y-auto">
+                       {incomingBatch?.files.map((meta, index) => (
+                           <li key={index} className="flex items-center gap-2 text-sm bg-gray-900 rounded-lg px-3 py-2">
+                               <FileThumbnail meta={meta} size="small" />
+                               <span className="truncate flex-1 text-gray-200">{meta.path || meta.name}</span>
+                               <span className="text-gray-500 shrink-0">{formatBytes(meta.size)}</span>
+                           </li>
+                       ))}
+                   </ul>
+               )}
+               <p className="text-sm text-gray-400 mb-6">{incomingBatch ? formatBytes(incomingBatch.totalSize) : '0 B'} • Original Quality</p>
+               
+               {incomingIsFolder && (canZipIncoming || supportsDirectoryPicker()) && (
+                   <div className="flex flex-col gap-2 w-full mb-4">
+                       {canZipIncoming && (
+                           <button 
+                               onClick={() => acceptTransfer('zip')}
+                               className="w-full py-3 bg-green-600 hover:bg-green-500 text-white rounded-xl transition-colors font-bold shadow-lg shadow-green-900/20 active:scale-95 flex items-center justify-center gap-2"
+                           >
+                               <Archive size={18} /> Accept as ZIP
+                           </button>
+                       )}
+                       {supportsDirectoryPicker() && (
+                           <button 
+                               onClick={() => acceptTransfer('directory')}
+                               className="w-full py-3 bg-gray-700 hover:bg-gray-600 text-white rounded-xl transition-colors font-semibold flex items-center justify-center gap-2"
+                           >
+                               <FolderDown size={18} /> Save into a Folder
+                           </button>
+                       )}
+                   </div>
+               )}
+
+               <div className="flex gap-4 w-full">
+                   <button 
+                       onClick={rejectTransfer}
+                       className="flex-1 py-3 bg-gray-700 hover:bg-red-600 text-white rounded-xl transition-colors font-semibold"
+                   >
+                       Decline
+                   </button>
+                   <button 
+                       onClick={() => acceptTransfer('files')}
+                       className={`flex-1 py-3 text-white rounded-xl transition-colors font-bold active:scale-95 ${incomingIsFolder && (canZipIncoming || supportsDirectoryPicker()) ? 'bg-gray-700 hover:bg-gray-600' : 'bg-green-600 hover:bg-green-500 shadow-lg shadow-green-900/20'}`}
+                   >
+                       {incomingIsFolder ? 'Separate Files' : incomingBatch && incomingBatch.files.length > 1 ? 'Accept All' : 'Accept'}
+                   </button>
+               </div>
+           </div>
+        </Modal>
     </div>
   );
 
@@ -738,6 +1564,18 @@ const App: React.FC = () => {
                     </span>
                   </div>
               )}
+              <button onClick={() => setShowDevices(true)} title="Devices" className="p-2 bg-gray-800 rounded-full border border-gray-700 hover:text-blue-400 active:scale-95 transition-transform">
+                  <Users size={18} />
+              </button>
+              <button onClick={() => setShowAcceptance(true)} title="Acceptance rules" className="p-2 bg-gray-800 rounded-full border border-gray-700 hover:text-blue-400 active:scale-95 transition-transform">
+                  <Filter size={18} />
+              </button>
+              <button onClick={() => setShowHistory(true)} title="Transfer history" className="p-2 bg-gray-800 rounded-full border border-gray-700 hover:text-blue-400 active:scale-95 transition-transform">
+                  <History size={18} />
+              </button>
+              <button onClick={() => setShowSettings(true)} title="Connection settings" className="p-2 bg-gray-800 rounded-full border border-gray-700 hover:text-blue-400 active:scale-95 transition-transform">
+                  <Settings size={18} />
+              </button>
               <button onClick={copyLink} className="p-2 bg-gray-800 rounded-full border border-gray-700 hover:text-blue-400 active:scale-95 transition-transform">
                   <Share2 size={18} />
               </button>
@@ -748,6 +1586,24 @@ const App: React.FC = () => {
       {/* Main Content Area */}
       {view === 'home' ? renderHome() : renderApp()}
 
+      <PairingCodeModal
+        peerId={codePrompt}
+        onSubmit={answerCodePrompt}
+        onCancel={() => answerCodePrompt(null)}
+      />
+
+      <ManualPairingModal
+        isOpen={!!manualPairing}
+        role={manualPairing ?? 'send'}
+        rtcConfig={rtcConfig}
+        onConnected={handleManualPairing}
+        onClose={() => setManualPairing(null)}
+      />
+      <HistoryModal isOpen={showHistory} onClose={() => setShowHistory(false)} />
+      <AcceptanceModal isOpen={showAcceptance} onClose={() => setShowAcceptance(false)} />
+      <DevicesModal isOpen={showDevices} trustedDevices={trustedDevices} onRevoke={fingerprint => setTrustedDevices(revokeDevice(fingerprint))} onClose={() => setShowDevices(false)} />
+      <SettingsModal isOpen={showSettings} settings={settings} onSave={applySettings} onClose={() => setShowSettings(false)} />
+
       <Footer />
     </div>
   );
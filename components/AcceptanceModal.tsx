@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from 'react';
+import { Modal } from './Modal';
+import { AcceptancePolicy, formatTypeList, loadAcceptancePolicy, parseTypeList, saveAcceptancePolicy } from '../utils/acceptance';
+
+interface AcceptanceModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-sm text-white placeholder-gray-600 focus:outline-none focus:border-blue-500';
+const numberClass = 'w-24 bg-gray-900 border border-gray-700 rounded-lg px-2 py-1 text-sm text-white focus:outline-none focus:border-blue-500';
+
+// Rules that decline incoming offers without asking. Each change is saved right away and applies to the next offer.
+export const AcceptanceModal: React.FC<AcceptanceModalProps> = ({ isOpen, onClose }) => {
+  const [policy, setPolicy] = useState<AcceptancePolicy>(loadAcceptancePolicy);
+  // The type lists are edited as text and parsed when the field loses focus
+  const [allowedText, setAllowedText] = useState('');
+  const [blockedText, setBlockedText] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const stored = loadAcceptancePolicy();
+    setPolicy(stored);
+    setAllowedText(formatTypeList(stored.allowedTypes));
+    setBlockedText(formatTypeList(stored.blockedTypes));
+  }, [isOpen]);
+
+  const updatePolicy = (patch: Partial<AcceptancePolicy>) => {
+    const next = { ...policy, ...patch };
+    setPolicy(next);
+    saveAcceptancePolicy(next);
+  };
+
+  const saveAllowed = () => {
+    const allowedTypes = parseTypeList(allowedText);
+    setAllowedText(formatTypeList(allowedTypes));
+    updatePolicy({ allowedTypes });
+  };
+
+  const saveBlocked = () => {
+    const blockedTypes = parseTypeList(blockedText);
+    setBlockedText(formatTypeList(blockedTypes));
+    updatePolicy({ blockedTypes });
+  };
+
+  return (
+    <Modal isOpen={isOpen} title="Acceptance Rules" onClose={onClose}>
+      <div className="space-y-5 text-left">
+        <p className="text-xs text-gray-500">Offers that break a rule are declined automatically and the sender is told why.</p>
+
+        <section className="space-y-2">
+          <h4 className="text-sm font-bold text-gray-300">File types</h4>
+          <label className="block text-xs text-gray-400">
+            Blocked
+            <input
+              className={`${inputClass} mt-1`}
+              placeholder=".apk, .exe"
+              value={blockedText}
+              onChange={e => setBlockedText(e.target.value)}
+              onBlur={saveBlocked}
+              onKeyDown={e => e.key === 'Enter' && saveBlocked()}
+            />
+          </label>
+          <label className="block text-xs text-gray-400">
+            Only accept
+            <input
+              className={`${inputClass} mt-1`}
+              placeholder="Any type"
+              value={allowedText}
+              onChange={e => setAllowedText(e.target.value)}
+              onBlur={saveAllowed}
+              onKeyDown={e => e.key === 'Enter' && saveAllowed()}
+            />
+          </label>
+          <p className="text-xs text-gray-500">Extensions like .pdf or MIME types like image/*, separated by commas. The sender chooses the MIME type, so block by extension.</p>
+          <label className="flex items-start gap-2 text-sm text-gray-300">
+            <input type="checkbox" className="mt-1" checked={policy.typeRulesForTrusted} onChange={e => updatePolicy({ typeRulesForTrusted: e.target.checked })} />
+            <span>
+              Apply to trusted devices too
+              <span className="block text-xs text-gray-500">Otherwise only unknown devices are held to these types.</span>
+            </span>
+          </label>
+        </section>
+
+        <section className="space-y-2">
+          <h4 className="text-sm font-bold text-gray-300">Size</h4>
+          <div className="flex items-center gap-2 text-sm text-gray-400">
+            <span>Largest file</span>
+            <input
+              type="number"
+              min={0}
+              className={numberClass}
+              value={policy.maxFileSizeMb}
+              onChange={e => updatePolicy({ maxFileSizeMb: Math.max(0, Number(e.target.value) || 0) })}
+            />
+            <span>MB</span>
+            <span className="flex-1 text-right text-xs text-gray-500">0 for no limit</span>
+          </div>
+          <label className="flex items-start gap-2 text-sm text-gray-300">
+            <input type="checkbox" className="mt-1" checked={policy.checkFreeSpace} onChange={e => updatePolicy({ checkFreeSpace: e.target.checked })} />
+            <span>
+              Decline batches that do not fit
+              <span className="block text-xs text-gray-500">Uses the storage estimate this browser reports, which can be lower than the free space on disk.</span>
+            </span>
+          </label>
+        </section>
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,205 @@
+import React, { useState } from 'react';
+import { FileText, FolderOpen, Loader2, Plus, Send, UploadCloud, XCircle } from 'lucide-react';
+import { PairingCodeBadge } from './PairingCodeBadge';
+import { QrCode } from './QrCode';
+import { TransferStatsLine } from './TransferStatsLine';
+import { BroadcastMember, QueuedFile, TransferState } from '../types';
+import { PairingCode } from '../protocol/auth';
+import { transferFlags } from '../protocol/transferMachine';
+import { PickedFile, collectInputFiles } from '../utils/folder';
+import { buildConnectLink, isValidPeerId } from '../utils/deepLink';
+import { formatBytes } from '../utils/format';
+
+interface BroadcastPanelProps {
+  // This device's ID doubles as the room code receivers join with
+  roomCode: string;
+  // Shared by every receiver that joins until it expires or is renewed
+  pairing: PairingCode;
+  onRenewPairing: () => void;
+  roomOpen: boolean;
+  onRoomOpenChange: (open: boolean) => void;
+  members: BroadcastMember[];
+  onAddReceiver: (peerId: string) => void;
+  onRemoveReceiver: (peerId: string) => void;
+  files: QueuedFile[];
+  onAddFiles: (files: PickedFile[]) => void;
+  onRemoveFile: (id: string) => void;
+  hashProgress: number | null;
+  onSend: () => void;
+}
+
+const describeMember = (member: BroadcastMember): { label: string; className: string } => {
+  if (member.declined) return { label: member.message || 'Declined', className: 'text-yellow-400' };
+  switch (member.state) {
+    case TransferState.CONNECTING:
+      return { label: 'Connecting...', className: 'text-gray-400' };
+    case TransferState.WAITING_APPROVAL:
+      return { label: 'Waiting for approval', className: 'text-yellow-500' };
+    case TransferState.TRANSFERRING:
+      return { label: `${member.progress}%`, className: 'text-blue-400' };
+    case TransferState.PAUSED:
+      return { label: `Paused at ${member.progress}%`, className: 'text-yellow-400' };
+    case TransferState.CONNECTED:
+      return { label: member.message, className: 'text-gray-300' };
+    case TransferState.COMPLETED:
+      return { label: 'Finished', className: 'text-green-400' };
+    case TransferState.FAILED:
+      return { label: member.message || 'Failed', className: 'text-red-400' };
+    default:
+      return { label: 'Ready', className: 'text-gray-300' };
+  }
+};
+
+export const BroadcastPanel: React.FC<BroadcastPanelProps> = ({
+  roomCode, pairing, onRenewPairing, roomOpen, onRoomOpenChange, members, onAddReceiver, onRemoveReceiver, files, onAddFiles, onRemoveFile, hashProgress, onSend
+}) => {
+  const [receiverId, setReceiverId] = useState('');
+
+  const ready = members.filter(member => member.state !== TransferState.CONNECTING && !transferFlags(member).busy && member.state !== TransferState.FAILED);
+  const finished = members.filter(member => !member.declined && member.state === TransferState.COMPLETED).length;
+  const failed = members.filter(member => !member.declined && member.state === TransferState.FAILED).length;
+  const declined = members.filter(member => member.declined).length;
+  const canAdd = isValidPeerId(receiverId) && receiverId !== roomCode && !members.some(member => member.peerId === receiverId);
+
+  const addReceiver = () => {
+    if (!canAdd) return;
+    onAddReceiver(receiverId);
+    setReceiverId('');
+  };
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0) onAddFiles(collectInputFiles(e.target.files));
+    e.target.value = '';
+  };
+
+  return (
+    <div className="space-y-4 animate-fade-in">
+      {/* Receivers */}
+      <div className="bg-gray-800/50 p-6 rounded-2xl border border-gray-700 space-y-4">
+        <label className="flex items-start gap-2 text-sm text-gray-300">
+          <input type="checkbox" className="mt-1" checked={roomOpen} onChange={e => onRoomOpenChange(e.target.checked)} />
+          <span>
+            Let receivers join with a room code
+            <span className="block text-xs text-gray-500">Anyone who connects to this device while the room is open is added to the list below.</span>
+          </span>
+        </label>
+        {roomOpen && roomCode && (
+          <div className="flex flex-col items-center">
+            <div className="p-2 bg-white rounded-xl">
+              <QrCode value={buildConnectLink(roomCode, pairing.code)} size={160} />
+            </div>
+            <p className="text-2xl font-mono text-green-400 font-bold mt-3 tracking-widest select-all bg-gray-900 px-4 py-2 rounded-lg border border-gray-800">{roomCode}</p>
+            <div className="mt-2">
+              <PairingCodeBadge pairing={pairing} onRenew={onRenewPairing} />
+            </div>
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <input
+            type="text"
+            inputMode="numeric"
+            autoComplete="off"
+            placeholder="Receiver ID"
+            value={receiverId}
+            onChange={e => setReceiverId(e.target.value.replace(/\D/g, '').slice(0, 6))}
+            onKeyDown={e => e.key === 'Enter' && addReceiver()}
+            className="flex-1 min-w-0 bg-gray-950 border border-gray-700 text-white text-center text-lg tracking-widest rounded-xl p-2 focus:outline-none focus:border-blue-500"
+          />
+          <button onClick={addReceiver} disabled={!canAdd} className="bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white px-4 rounded-xl flex items-center gap-1 text-sm font-bold">
+            <Plus size={16} /> Add
+          </button>
+        </div>
+
+        {members.length > 0 && (
+          <>
+            <ul className="space-y-2 max-h-72 overflow-y-auto">
+              {members.map(member => {
+                const { label, className } = describeMember(member);
+                return (
+                  <li key={member.peerId} className="bg-gray-900 border border-gray-700 rounded-xl px-3 py-2 text-sm">
+                    <div className="flex items-center gap-2">
+                      <span className="font-mono text-gray-200">{member.peerId}</span>
+                      {member.device && <span className="text-xs text-gray-400 truncate max-w-[8rem]">{member.device.name}</span>}
+                      {member.sasCode && <span className="font-mono text-[11px] text-gray-500" title="Verification code">{member.sasCode}</span>}
+                      <span className={`flex-1 text-right truncate text-xs ${className}`} title={member.message}>{label}</span>
+                      {!transferFlags(member).busy && (
+                        <button onClick={() => onRemoveReceiver(member.peerId)} className="p-1 text-gray-400 hover:text-red-500" title="Remove receiver">
+                          <XCircle size={16} />
+                        </button>
+                      )}
+                    </div>
+                    {member.state === TransferState.TRANSFERRING && (
+                      <div className="w-full bg-gray-800 rounded-full h-1 mt-2 overflow-hidden">
+                        <div className="bg-blue-600 h-1 rounded-full transition-all duration-300" style={{ width: `${member.progress}%` }}></div>
+                      </div>
+                    )}
+                    {member.stats && member.state === TransferState.TRANSFERRING && <TransferStatsLine stats={member.stats} />}
+                  </li>
+                );
+              })}
+            </ul>
+            <p className="text-xs text-gray-500 text-center">
+              {finished} finished • {failed} failed • {declined} declined • {members.length} total
+            </p>
+          </>
+        )}
+      </div>
+
+      {/* Files */}
+      <div className="bg-gray-800/50 p-6 rounded-2xl border border-gray-700 space-y-4">
+        {files.length === 0 ? (
+          <label className="flex flex-col items-center justify-center w-full h-32 border-2 border-dashed border-gray-600 rounded-xl cursor-pointer hover:bg-gray-800/80 hover:border-blue-500 transition-all">
+            <UploadCloud className="w-8 h-8 mb-2 text-gray-400" />
+            <p className="text-sm text-gray-400"><span className="font-semibold">Choose files</span> to send to everyone</p>
+            <input type="file" multiple className="hidden" onChange={handleFileSelect} />
+          </label>
+        ) : (
+          <>
+            <ul className="space-y-2 max-h-60 overflow-y-auto">
+              {files.map(item => (
+                <li key={item.id} className="flex items-center gap-2 text-sm bg-gray-900 border border-gray-700 rounded-xl px-3 py-2">
+                  <FileText size={18} className="text-blue-500 shrink-0" />
+                  <span className="truncate flex-1 text-gray-200">{item.path || item.file.name}</span>
+                  <span className="text-gray-500 text-xs shrink-0">{formatBytes(item.file.size)}</span>
+                  <button onClick={() => onRemoveFile(item.id)} className="p-1 text-gray-400 hover:text-red-500">
+                    <XCircle size={16} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <div className="flex justify-between items-center text-sm text-gray-400 px-1">
+              <span>{files.length} {files.length === 1 ? 'file' : 'files'} • {formatBytes(files.reduce((sum, item) => sum + item.file.size, 0))}</span>
+              <label className="flex items-center gap-1 cursor-pointer text-blue-400 hover:text-blue-300">
+                <Plus size={14} /> Add more
+                <input type="file" multiple className="hidden" onChange={handleFileSelect} />
+              </label>
+            </div>
+          </>
+        )}
+        <label className="flex items-center justify-center gap-2 text-sm text-blue-400 hover:text-blue-300 cursor-pointer">
+          <FolderOpen size={16} /> Choose a folder
+          <input type="file" className="hidden" onChange={handleFileSelect} {...({ webkitdirectory: '' } as React.InputHTMLAttributes<HTMLInputElement>)} />
+        </label>
+
+        <button
+          onClick={onSend}
+          disabled={files.length === 0 || ready.length === 0 || hashProgress !== null}
+          className="w-full bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white font-bold py-4 rounded-xl shadow-lg shadow-blue-900/20 active:scale-95 transition-all flex items-center justify-center gap-2"
+        >
+          {hashProgress !== null ? (
+            <>
+              <Loader2 size={20} className="animate-spin" />
+              HASHING {hashProgress}%
+            </>
+          ) : (
+            <>
+              <Send size={20} />
+              SEND TO {ready.length} {ready.length === 1 ? 'RECEIVER' : 'RECEIVERS'}
+            </>
+          )}
+        </button>
+      </div>
+    </div>
+  );
+};
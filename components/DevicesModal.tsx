@@ -0,0 +1,82 @@
+import React, { useEffect, useState } from 'react';
+import { ShieldOff } from 'lucide-react';
+import { Modal } from './Modal';
+import { TrustedDevice } from '../types';
+import { DeviceProfile, MAX_DEVICE_NAME_LENGTH, formatFingerprint, getDeviceKeys, loadDeviceProfile, saveDeviceProfile } from '../utils/identity';
+
+interface DevicesModalProps {
+  isOpen: boolean;
+  trustedDevices: TrustedDevice[];
+  onRevoke: (fingerprint: string) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-sm text-white placeholder-gray-600 focus:outline-none focus:border-blue-500';
+
+// This device's name and key, and the devices whose transfers are accepted without asking
+export const DevicesModal: React.FC<DevicesModalProps> = ({ isOpen, trustedDevices, onRevoke, onClose }) => {
+  const [profile, setProfile] = useState<DeviceProfile>(loadDeviceProfile);
+  const [fingerprint, setFingerprint] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setProfile(loadDeviceProfile());
+    getDeviceKeys()
+      .then(keys => setFingerprint(keys.fingerprint))
+      .catch(() => setFingerprint(null));
+  }, [isOpen]);
+
+  // Applies to the next connection's handshake
+  const saveName = () => {
+    const name = profile.name.trim();
+    const next = { ...profile, name: name || loadDeviceProfile().name };
+    setProfile(next);
+    saveDeviceProfile(next);
+  };
+
+  return (
+    <Modal isOpen={isOpen} title="Devices" onClose={onClose}>
+      <div className="space-y-5 text-left">
+        <section className="space-y-2">
+          <h4 className="text-sm font-bold text-gray-300">This device</h4>
+          <input
+            className={inputClass}
+            placeholder="Device name"
+            maxLength={MAX_DEVICE_NAME_LENGTH}
+            value={profile.name}
+            onChange={e => setProfile(prev => ({ ...prev, name: e.target.value }))}
+            onBlur={saveName}
+            onKeyDown={e => e.key === 'Enter' && saveName()}
+          />
+          <p className="text-xs text-gray-500">
+            ID <span className="font-mono text-gray-300">{profile.id}</span> • Key{' '}
+            <span className="font-mono text-gray-300">{fingerprint ? formatFingerprint(fingerprint) : 'unavailable'}</span>
+          </p>
+          <p className="text-xs text-gray-500">Other devices see this name and key when you connect. The ID stays the same across visits unless another tab is already using it.</p>
+        </section>
+
+        <section className="space-y-2">
+          <h4 className="text-sm font-bold text-gray-300">Trusted devices</h4>
+          <p className="text-xs text-gray-500">Files from these devices are accepted without asking. They are recognised by their key, not their ID.</p>
+          {trustedDevices.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-2">No trusted devices yet. Trust a device from the status card while connected.</p>
+          ) : (
+            <ul className="space-y-2 max-h-60 overflow-y-auto">
+              {trustedDevices.map(device => (
+                <li key={device.fingerprint} className="flex items-center gap-2 bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-sm">
+                  <div className="flex-1 min-w-0">
+                    <p className="truncate text-gray-200">{device.name || 'Unnamed device'}</p>
+                    <p className="text-[11px] text-gray-500 font-mono">{formatFingerprint(device.fingerprint)} • last ID {device.peerId}</p>
+                  </div>
+                  <button onClick={() => onRevoke(device.fingerprint)} className="p-1 text-gray-400 hover:text-red-500 flex items-center gap-1 text-xs" title="Revoke trust">
+                    <ShieldOff size={14} /> Revoke
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </div>
+    </Modal>
+  );
+};
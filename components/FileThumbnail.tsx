@@ -0,0 +1,34 @@
+import React from 'react';
+import { FileText, Image as ImageIcon } from 'lucide-react';
+import { FileMetadata } from '../types';
+
+interface FileThumbnailProps {
+  meta: FileMetadata;
+  // large: the single-file approval prompt; small: one row of a file list
+  size: 'large' | 'small';
+}
+
+// The sender's preview of an offered file, or an icon when it sent none
+export const FileThumbnail: React.FC<FileThumbnailProps> = ({ meta, size }) => {
+  const preview = meta.preview;
+  if (size === 'small') {
+    if (preview?.kind === 'image') return <img src={preview.url} alt="" className="w-8 h-8 rounded object-cover shrink-0" />;
+    return (
+      <span title={preview?.kind === 'text' ? preview.text : undefined} className="shrink-0">
+        <FileText size={20} className="text-blue-500" />
+      </span>
+    );
+  }
+
+  if (preview?.kind === 'image') {
+    return <img src={preview.url} alt={`Preview of ${meta.name}`} className="max-h-40 max-w-full rounded-lg mb-4 bg-black object-contain" />;
+  }
+  if (preview?.kind === 'text') {
+    return (
+      <pre className="w-full max-h-40 overflow-hidden text-left text-xs text-gray-300 bg-gray-950 border border-gray-700 rounded-lg p-3 mb-4 whitespace-pre-wrap break-all font-mono">
+        {preview.text}
+      </pre>
+    );
+  }
+  return meta.type.startsWith('image') ? <ImageIcon size={48} className="text-purple-500 mb-4" /> : <FileText size={48} className="text-blue-500 mb-4" />;
+};
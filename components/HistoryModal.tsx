@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowDownLeft, ArrowUpRight, Download } from 'lucide-react';
+import { Modal } from './Modal';
+import { HistoryEntry } from '../types';
+import { HistoryPrefs, clearHistory, getHistoryBlob, listHistory, loadHistoryPrefs, purgeHistoryBlobs, saveHistoryPrefs, storedBlobBytes } from '../utils/history';
+import { formatBytes, formatDuration, formatSpeed } from '../utils/format';
+
+interface HistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const OUTCOME_LABELS: Record<HistoryEntry['outcome'], { label: string; className: string }> = {
+  completed: { label: 'Completed', className: 'text-green-400' },
+  failed: { label: 'Failed', className: 'text-red-400' },
+  declined: { label: 'Declined', className: 'text-yellow-400' },
+  cancelled: { label: 'Cancelled', className: 'text-gray-400' }
+};
+
+const inputClass = 'w-24 bg-gray-900 border border-gray-700 rounded-lg px-2 py-1 text-sm text-white focus:outline-none focus:border-blue-500';
+
+export const HistoryModal: React.FC<HistoryModalProps> = ({ isOpen, onClose }) => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [prefs, setPrefs] = useState<HistoryPrefs>(loadHistoryPrefs);
+  const [error, setError] = useState('');
+
+  const refresh = () => {
+    listHistory()
+      .then(setEntries)
+      .catch(err => {
+        console.warn('Could not read history:', err);
+        setError('History is not available in this browser.');
+      });
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      setError('');
+      refresh();
+    }
+  }, [isOpen]);
+
+  const updatePrefs = (patch: Partial<HistoryPrefs>) => {
+    const next = { ...prefs, ...patch };
+    setPrefs(next);
+    saveHistoryPrefs(next);
+  };
+
+  const download = async (entry: HistoryEntry) => {
+    const blob = await getHistoryBlob(entry.id).catch(() => undefined);
+    if (!blob) {
+      setError(`${entry.name} is no longer stored.`);
+      refresh();
+      return;
+    }
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = entry.name;
+    a.click();
+    setTimeout(() => URL.revokeObjectURL(url), 10000);
+  };
+
+  const purge = async () => {
+    if (!confirm('Delete every stored file? The history itself is kept.')) return;
+    await purgeHistoryBlobs().catch(err => console.warn('Could not purge stored files:', err));
+    refresh();
+  };
+
+  const clearAll = async () => {
+    if (!confirm('Delete the whole transfer history, including stored files?')) return;
+    await clearHistory().catch(err => console.warn('Could not clear history:', err));
+    refresh();
+  };
+
+  const used = storedBlobBytes(entries);
+
+  return (
+    <Modal isOpen={isOpen} title="Transfer History" onClose={onClose}>
+      <div className="space-y-4 text-left">
+        <section className="space-y-2">
+          <label className="flex items-start gap-2 text-sm text-gray-300">
+            <input type="checkbox" className="mt-1" checked={prefs.keepReceived} onChange={e => updatePrefs({ keepReceived: e.target.checked })} />
+            <span>
+              Keep copies of received files
+              <span className="block text-xs text-gray-500">Stored in this browser so they can be downloaded again. Files saved straight to a folder or the Downloads folder are not kept.</span>
+            </span>
+          </label>
+          <div className="flex items-center gap-2 text-sm text-gray-400">
+            <span>Storage limit</span>
+            <input
+              type="number"
+              min={0}
+              className={inputClass}
+              value={prefs.quotaMb}
+              onChange={e => updatePrefs({ quotaMb: Math.max(0, Number(e.target.value) || 0) })}
+            />
+            <span>MB</span>
+            <span className="flex-1 text-right text-xs">{formatBytes(used)} used</span>
+          </div>
+        </section>
+
+        {error && <p className="text-xs text-red-400">{error}</p>}
+
+        <ul className="space-y-2 max-h-[45vh] overflow-y-auto pr-1">
+          {entries.length === 0 && (
+            <li className="text-sm text-gray-500 text-center py-4">No transfers yet.</li>
+          )}
+          {entries.map(entry => {
+            const outcome = OUTCOME_LABELS[entry.outcome];
+            return (
+              <li key={entry.id} className="bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-sm">
+                <div className="flex items-center gap-2">
+                  {entry.direction === 'sent'
+                    ? <ArrowUpRight size={16} className="text-blue-400 shrink-0" />
+                    : <ArrowDownLeft size={16} className="text-green-400 shrink-0" />}
+                  <span className="truncate flex-1 text-gray-200">{entry.name}</span>
+                  <span className={`text-xs shrink-0 ${outcome.className}`} title={entry.error}>{outcome.label}</span>
+                  {entry.hasBlob && (
+                    <button onClick={() => download(entry)} className="p-1 text-green-400 hover:text-green-300" title="Download again">
+                      <Download size={16} />
+                    </button>
+                  )}
+                </div>
+                <p className="text-[11px] text-gray-500 mt-1">
+                  {formatBytes(entry.size)} • {entry.direction === 'sent' ? 'to' : 'from'} {entry.peer} • {new Date(entry.finishedAt).toLocaleString()}
+                </p>
+                {entry.outcome !== 'declined' ? (
+                  <p className="text-[11px] text-gray-500">
+                    {formatDuration(entry.duration / 1000)} • {formatSpeed(entry.averageSpeed)}{entry.error ? ` • ${entry.error}` : ''}
+                  </p>
+                ) : entry.error && (
+                  <p className="text-[11px] text-gray-500">{entry.error}</p>
+                )}
+                {entry.sha256 && (
+                  <p className="text-[10px] font-mono text-gray-600 truncate" title={entry.sha256}>SHA-256 {entry.sha256}</p>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+
+        <div className="flex gap-2">
+          <button onClick={purge} disabled={used === 0} className="flex-1 py-2 rounded-lg text-sm bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white">
+            Purge stored files
+          </button>
+          <button onClick={clearAll} disabled={entries.length === 0} className="flex-1 py-2 rounded-lg text-sm bg-gray-700 hover:bg-red-600 disabled:opacity-50 text-white">
+            Clear history
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
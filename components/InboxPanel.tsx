@@ -0,0 +1,119 @@
+import React from 'react';
+import { Download, FileText, Inbox as InboxIcon, XCircle } from 'lucide-react';
+import { FileThumbnail } from './FileThumbnail';
+import { PairingCodeBadge } from './PairingCodeBadge';
+import { QrCode } from './QrCode';
+import { TransferStatsLine } from './TransferStatsLine';
+import { InboxSender, TransferState } from '../types';
+import { PairingCode } from '../protocol/auth';
+import { transferFlags } from '../protocol/transferMachine';
+import { buildConnectLink } from '../utils/deepLink';
+import { formatBytes, formatCompression } from '../utils/format';
+
+interface InboxPanelProps {
+  myId: string;
+  pairing: PairingCode;
+  onRenewPairing: () => void;
+  senders: InboxSender[];
+  onAccept: (peerId: string) => void;
+  onReject: (peerId: string) => void;
+  onRemove: (peerId: string) => void;
+}
+
+// Incoming offers and finished downloads, grouped by the sender they came from
+export const InboxPanel: React.FC<InboxPanelProps> = ({ myId, pairing, onRenewPairing, senders, onAccept, onReject, onRemove }) => (
+  <div className="space-y-4 animate-fade-in">
+    <div className="bg-gray-800/50 p-6 rounded-2xl border border-gray-700 flex items-center gap-4">
+      {myId && (
+        <div className="p-1.5 bg-white rounded-lg shrink-0">
+          <QrCode value={buildConnectLink(myId, pairing.code)} size={96} />
+        </div>
+      )}
+      <div className="text-left">
+        <h3 className="font-bold text-white flex items-center gap-2"><InboxIcon size={18} className="text-green-400" /> Inbox is open</h3>
+        <p className="text-sm text-gray-400">Any number of senders can connect to</p>
+        <p className="text-2xl font-mono text-green-400 font-bold tracking-widest select-all">{myId}</p>
+        <p className="text-xs text-gray-500 mt-1 mb-1">New senders also need the pairing code, which is valid for a few minutes:</p>
+        <PairingCodeBadge pairing={pairing} onRenew={onRenewPairing} />
+      </div>
+    </div>
+
+    {senders.length === 0 && (
+      <p className="text-sm text-gray-500 text-center">No senders yet.</p>
+    )}
+
+    {senders.map(sender => (
+      <div key={sender.peerId} className="bg-gray-800/50 p-4 rounded-2xl border border-gray-700 text-left space-y-3">
+        <div className="flex items-center gap-2 text-sm">
+          <span className={`w-2 h-2 rounded-full shrink-0 ${sender.connected ? 'bg-green-500' : 'bg-gray-600'}`} />
+          <span className="font-mono font-bold text-gray-200">{sender.peerId}</span>
+          {sender.device && <span className="text-xs text-gray-400 truncate max-w-[8rem]">{sender.device.name}</span>}
+          {sender.sasCode && <span className="font-mono text-[11px] text-gray-500" title="Verification code">{sender.sasCode}</span>}
+          <span className={`flex-1 text-right truncate text-xs ${sender.state === TransferState.FAILED ? 'text-red-400' : 'text-gray-400'}`}>{sender.message}</span>
+          {!transferFlags(sender).active && (
+            <button onClick={() => onRemove(sender.peerId)} className="p-1 text-gray-400 hover:text-red-500" title="Disconnect and clear">
+              <XCircle size={16} />
+            </button>
+          )}
+        </div>
+
+        {sender.offer && (
+          <div className="bg-gray-900 border border-yellow-500/30 rounded-xl p-3 space-y-2">
+            <ul className="text-sm space-y-1 max-h-32 overflow-y-auto">
+              {sender.offer.files.map((meta, index) => (
+                <li key={index} className="flex items-center gap-2">
+                  <FileThumbnail meta={meta} size="small" />
+                  <span className="truncate flex-1 text-gray-200">{meta.path || meta.name}</span>
+                  <span className="text-gray-500 shrink-0">{formatBytes(meta.size)}</span>
+                </li>
+              ))}
+            </ul>
+            <p className="text-xs text-gray-400">{sender.offer.files.length} {sender.offer.files.length === 1 ? 'file' : 'files'} • {formatBytes(sender.offer.totalSize)}</p>
+            <div className="flex gap-2">
+              <button onClick={() => onReject(sender.peerId)} className="flex-1 py-2 bg-gray-700 hover:bg-red-600 text-white rounded-lg text-sm font-semibold">
+                Decline
+              </button>
+              <button onClick={() => onAccept(sender.peerId)} className="flex-1 py-2 bg-green-600 hover:bg-green-500 text-white rounded-lg text-sm font-bold">
+                Accept
+              </button>
+            </div>
+          </div>
+        )}
+
+        {transferFlags(sender).active && (
+          <div>
+            <div className="w-full bg-gray-800 rounded-full h-1.5 overflow-hidden">
+              <div className="bg-blue-600 h-1.5 rounded-full transition-all duration-300" style={{ width: `${sender.progress}%` }}></div>
+            </div>
+            {sender.stats && <TransferStatsLine stats={sender.stats} />}
+          </div>
+        )}
+
+        {sender.files.length > 0 && (
+          <ul className="space-y-1">
+            {sender.files.map((item, index) => (
+              <li key={index} className="flex items-center gap-2 text-sm bg-gray-900 rounded-lg px-3 py-2">
+                <FileText size={16} className={`shrink-0 ${item.status === 'completed' ? 'text-green-500' : item.status === 'failed' ? 'text-red-500' : 'text-gray-500'}`} />
+                <span className="truncate flex-1 text-gray-200" title={item.error}>{item.meta.path || item.meta.name}</span>
+                {item.compression && (
+                  <span className="text-[11px] text-teal-400 shrink-0" title="Compressed in transit, saved unchanged">{formatCompression(item.compression)}</span>
+                )}
+                <span className="text-gray-500 text-xs shrink-0">
+                  {item.status === 'transferring' ? `${item.progress}%` : item.status === 'failed' ? 'Failed' : formatBytes(item.meta.size)}
+                </span>
+                {item.status === 'completed' && item.url && (
+                  <a href={item.url} download={item.meta.name || 'downloaded_file'} className="p-1 text-green-400 hover:text-green-300" title="Save to device">
+                    <Download size={16} />
+                  </a>
+                )}
+                {item.status === 'completed' && item.savedToDisk && (
+                  <span className="text-[11px] text-green-400 shrink-0">In Downloads</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    ))}
+  </div>
+);
@@ -0,0 +1,173 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Camera, Copy, Loader2 } from 'lucide-react';
+import { Modal } from './Modal';
+import { QrCode } from './QrCode';
+import { QrScanner, supportsQrScanning } from './QrScanner';
+import { ManualAnswer, ManualOffer, answerManualOffer, createManualOffer } from '../protocol/manualSignaling';
+import { Transport } from '../protocol/transport';
+
+interface ManualPairingModalProps {
+  isOpen: boolean;
+  // The sending device creates the invite, the receiving device answers it
+  role: 'send' | 'receive';
+  rtcConfig: RTCConfiguration;
+  onConnected: (transport: Transport) => void;
+  onClose: () => void;
+}
+
+type Step = 'preparing' | 'exchange' | 'connecting';
+
+export const ManualPairingModal: React.FC<ManualPairingModalProps> = ({ isOpen, role, rtcConfig, onConnected, onClose }) => {
+  const [step, setStep] = useState<Step>('exchange');
+  const [myCode, setMyCode] = useState<string | null>(null);
+  const [remoteCode, setRemoteCode] = useState('');
+  const [scanning, setScanning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Whatever is half-built; closed if the modal goes away before the channel opens
+  const pendingRef = useRef<ManualOffer | ManualAnswer | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setMyCode(null);
+    setRemoteCode('');
+    setScanning(false);
+    setError(null);
+    let cancelled = false;
+
+    if (role === 'send') {
+      setStep('preparing');
+      createManualOffer(rtcConfig).then(offer => {
+        if (cancelled) return offer.cancel();
+        pendingRef.current = offer;
+        setMyCode(offer.code);
+        setStep('exchange');
+      }).catch(err => {
+        console.error('Could not create invite:', err);
+        setError('Could not create an invite code.');
+        setStep('exchange');
+      });
+    } else {
+      setStep('exchange');
+    }
+
+    return () => {
+      cancelled = true;
+      pendingRef.current?.cancel();
+      pendingRef.current = null;
+    };
+  }, [isOpen, role, rtcConfig]);
+
+  const finish = (transport: Transport) => {
+    pendingRef.current = null;
+    onConnected(transport);
+  };
+
+  const submit = async (code: string) => {
+    setError(null);
+    setScanning(false);
+    try {
+      if (role === 'send') {
+        const offer = pendingRef.current as ManualOffer | null;
+        if (!offer) return;
+        setStep('connecting');
+        finish(await offer.accept(code));
+      } else {
+        setStep('preparing');
+        const answer = await answerManualOffer(rtcConfig, code);
+        pendingRef.current = answer;
+        setMyCode(answer.code);
+        setStep('connecting');
+        finish(await answer.connected);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Pairing failed.');
+      setStep('exchange');
+    }
+  };
+
+  const copyCode = () => {
+    if (myCode) navigator.clipboard.writeText(myCode);
+  };
+
+  const renderMyCode = (label: string) => myCode && (
+    <div className="flex flex-col items-center gap-2">
+      <p className="text-sm text-gray-300 self-start">{label}</p>
+      <QrCode value={myCode} />
+      <div className="flex w-full gap-2">
+        <input readOnly value={myCode} onFocus={e => e.target.select()} className="flex-1 min-w-0 bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-xs font-mono text-gray-400" />
+        <button onClick={copyCode} className="px-3 rounded-lg bg-gray-700 hover:bg-gray-600 text-white" title="Copy code">
+          <Copy size={16} />
+        </button>
+      </div>
+    </div>
+  );
+
+  const renderInput = (label: string, action: string) => (
+    <div className="space-y-2">
+      <p className="text-sm text-gray-300">{label}</p>
+      {scanning ? (
+        <QrScanner onScan={submit} onClose={() => setScanning(false)} />
+      ) : (
+        <>
+          <textarea
+            value={remoteCode}
+            onChange={e => setRemoteCode(e.target.value)}
+            placeholder="PS1..."
+            rows={3}
+            className="w-full bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-xs font-mono text-white focus:outline-none focus:border-blue-500"
+          />
+          <div className="flex gap-2">
+            {supportsQrScanning() && (
+              <button onClick={() => setScanning(true)} className="px-4 py-2 rounded-lg text-sm bg-gray-700 hover:bg-gray-600 text-white flex items-center gap-2">
+                <Camera size={16} /> Scan
+              </button>
+            )}
+            <button
+              onClick={() => submit(remoteCode)}
+              disabled={!remoteCode.trim()}
+              className="flex-1 py-2 rounded-lg text-sm font-bold bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white"
+            >
+              {action}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+
+  return (
+    <Modal isOpen={isOpen} title="Pair without a server" onClose={onClose}>
+      <div className="space-y-4 max-h-[70vh] overflow-y-auto text-left">
+        <p className="text-xs text-gray-500">
+          Works on an isolated network: the two devices swap codes directly and no server is contacted.
+        </p>
+
+        {step === 'preparing' && (
+          <div className="flex items-center justify-center gap-2 text-gray-400 py-6">
+            <Loader2 className="animate-spin" size={18} /> Gathering network details...
+          </div>
+        )}
+
+        {step === 'exchange' && role === 'send' && (
+          <>
+            {renderMyCode('1. Show this invite to the receiving device')}
+            {myCode && renderInput('2. Enter the reply it shows', 'Connect')}
+          </>
+        )}
+
+        {step === 'exchange' && role === 'receive' && renderInput("Scan or paste the sender's invite", 'Create reply')}
+
+        {step === 'connecting' && (
+          <>
+            {role === 'receive' && renderMyCode('Show this reply to the sending device')}
+            <div className="flex items-center justify-center gap-2 text-gray-400 py-2">
+              <Loader2 className="animate-spin" size={18} /> {role === 'receive' ? 'Waiting for the sender...' : 'Connecting...'}
+            </div>
+          </>
+        )}
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+      </div>
+    </Modal>
+  );
+};
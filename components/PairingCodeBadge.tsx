@@ -0,0 +1,35 @@
+import React, { useEffect, useState } from 'react';
+import { KeyRound, RefreshCw } from 'lucide-react';
+import { PairingCode } from '../protocol/auth';
+
+interface PairingCodeBadgeProps {
+  pairing: PairingCode;
+  onRenew: () => void;
+}
+
+const formatRemaining = (ms: number) => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+// The pairing code a new device has to enter before it can connect here
+export const PairingCodeBadge: React.FC<PairingCodeBadgeProps> = ({ pairing, onRenew }) => {
+  const [now, setNow] = useState(Date.now);
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  return (
+    <div className="inline-flex items-center gap-2 bg-gray-900 border border-gray-800 rounded-lg px-3 py-1.5 text-sm">
+      <KeyRound size={14} className="text-yellow-400" />
+      <span className="text-gray-400">Pairing code</span>
+      <span className="font-mono font-bold text-yellow-300 tracking-widest select-all">{pairing.code}</span>
+      <span className="text-xs text-gray-500 tabular-nums" title="Time until a new code replaces it">{formatRemaining(pairing.expiresAt - now)}</span>
+      <button onClick={onRenew} className="text-gray-500 hover:text-white" title="New code">
+        <RefreshCw size={14} />
+      </button>
+    </div>
+  );
+};
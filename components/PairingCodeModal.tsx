@@ -0,0 +1,47 @@
+import React, { useEffect, useState } from 'react';
+import { Modal } from './Modal';
+import { isValidPairingCode } from '../utils/deepLink';
+
+interface PairingCodeModalProps {
+  // Device asking for the code, or null when closed
+  peerId: string | null;
+  onSubmit: (code: string) => void;
+  onCancel: () => void;
+}
+
+export const PairingCodeModal: React.FC<PairingCodeModalProps> = ({ peerId, onSubmit, onCancel }) => {
+  const [code, setCode] = useState('');
+
+  useEffect(() => {
+    if (peerId) setCode('');
+  }, [peerId]);
+
+  const submit = () => {
+    if (isValidPairingCode(code)) onSubmit(code);
+  };
+
+  return (
+    <Modal isOpen={!!peerId} title="Enter pairing code" onClose={onCancel}>
+      <div className="space-y-4 text-center">
+        <p className="text-sm text-gray-300">
+          Device <span className="font-mono font-bold text-white">{peerId}</span> needs its pairing code before you can connect. It is shown on that device next to its ID.
+        </p>
+        <input
+          type="text"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          autoFocus
+          placeholder="000000"
+          value={code}
+          onChange={e => setCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+          onKeyDown={e => e.key === 'Enter' && submit()}
+          className="w-full bg-gray-950 border border-gray-700 text-white text-center text-2xl font-mono tracking-widest rounded-xl p-3 focus:outline-none focus:border-blue-500"
+        />
+        <div className="flex gap-3">
+          <button onClick={onCancel} className="flex-1 py-2 rounded-lg bg-gray-700 hover:bg-gray-600 text-white font-medium">Cancel</button>
+          <button onClick={submit} disabled={!isValidPairingCode(code)} className="flex-1 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white font-bold">Connect</button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
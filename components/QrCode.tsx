@@ -0,0 +1,33 @@
+import React, { useMemo } from 'react';
+import { encodeQr } from '../utils/qrcode';
+
+interface QrCodeProps {
+  value: string;
+  size?: number;
+}
+
+// Rendered as one SVG path on a white background with the standard 4-module quiet zone
+export const QrCode: React.FC<QrCodeProps> = ({ value, size = 240 }) => {
+  const qr = useMemo(() => {
+    try {
+      return encodeQr(value);
+    } catch {
+      return null;
+    }
+  }, [value]);
+
+  if (!qr) return <p className="text-xs text-gray-500">Too long for a QR code. Copy the text instead.</p>;
+
+  const dimension = qr.size + 8;
+  let path = '';
+  qr.modules.forEach((row, y) => row.forEach((dark, x) => {
+    if (dark) path += `M${x + 4} ${y + 4}h1v1h-1z`;
+  }));
+
+  return (
+    <svg viewBox={`0 0 ${dimension} ${dimension}`} width={size} height={size} shapeRendering="crispEdges" className="rounded-lg">
+      <rect width={dimension} height={dimension} fill="#fff" />
+      <path d={path} fill="#000" />
+    </svg>
+  );
+};
@@ -0,0 +1,79 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+// BarcodeDetector is not in the TypeScript DOM library yet
+interface BarcodeDetectorLike {
+  detect(source: CanvasImageSource): Promise<{ rawValue: string }[]>;
+}
+declare const BarcodeDetector: { new (options: { formats: string[] }): BarcodeDetectorLike } | undefined;
+
+export const supportsQrScanning = () =>
+  typeof BarcodeDetector !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+interface QrScannerProps {
+  onScan: (value: string) => void;
+  onClose: () => void;
+}
+
+const SCAN_INTERVAL = 250;
+
+// Camera preview that reports the first QR code it can read
+export const QrScanner: React.FC<QrScannerProps> = ({ onScan, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let timer: number | null = null;
+    let stopped = false;
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+        if (stopped || !videoRef.current) return;
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+
+        const detector = new BarcodeDetector!({ formats: ['qr_code'] });
+        const scan = async () => {
+          if (stopped || !videoRef.current) return;
+          try {
+            const [code] = await detector.detect(videoRef.current);
+            if (code?.rawValue && !stopped) {
+              stopped = true;
+              onScan(code.rawValue);
+              return;
+            }
+          } catch {
+            // Frame not ready yet; try the next one
+          }
+          timer = window.setTimeout(scan, SCAN_INTERVAL);
+        };
+        scan();
+      } catch (err) {
+        console.error('Camera unavailable:', err);
+        setError('Could not open the camera. Check the permission or paste the code instead.');
+      }
+    };
+    start();
+
+    return () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  return (
+    <div className="space-y-2">
+      {error ? (
+        <p className="text-sm text-red-400">{error}</p>
+      ) : (
+        <video ref={videoRef} muted playsInline className="w-full rounded-lg bg-black aspect-square object-cover" />
+      )}
+      <button onClick={onClose} className="w-full py-2 rounded-lg text-sm bg-gray-700 hover:bg-gray-600 text-white">
+        Stop scanning
+      </button>
+    </div>
+  );
+};
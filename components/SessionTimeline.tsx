@@ -0,0 +1,130 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Copy, Image as ImageIcon, Send, Trash2 } from 'lucide-react';
+import { TimelineEntry } from '../types';
+
+interface SessionTimelineProps {
+  entries: TimelineEntry[];
+  // False while no device is paired; the history stays readable
+  canSend: boolean;
+  onSendText: (text: string) => void;
+  onSendImage: (file: File) => void;
+  autoCopy: boolean;
+  onAutoCopyChange: (enabled: boolean) => void;
+  onClear: () => void;
+}
+
+const URL_PATTERN = /(https?:\/\/[^\s<>"']+)/g;
+
+// Only http(s) URLs become links; everything else stays plain text
+const renderText = (text: string) =>
+  text.split(URL_PATTERN).map((part, i) => i % 2 === 1 ? (
+    <a key={i} href={part} target="_blank" rel="noopener noreferrer" className="underline break-all hover:text-white">{part}</a>
+  ) : (
+    <React.Fragment key={i}>{part}</React.Fragment>
+  ));
+
+const formatTime = (at: number) => new Date(at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+export const SessionTimeline: React.FC<SessionTimelineProps> = ({ entries, canSend, onSendText, onSendImage, autoCopy, onAutoCopyChange, onClear }) => {
+  const [draft, setDraft] = useState('');
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [entries.length]);
+
+  const send = () => {
+    const text = draft.trim();
+    if (!text || !canSend) return;
+    onSendText(text);
+    setDraft('');
+  };
+
+  // An image on the clipboard is sent as-is; pasted text goes into the draft as usual
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const image = Array.from(e.clipboardData.files as FileList).find(file => file.type.startsWith('image/'));
+    if (!image || !canSend) return;
+    e.preventDefault();
+    onSendImage(image);
+  };
+
+  const handleImageSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onSendImage(file);
+    e.target.value = '';
+  };
+
+  return (
+    <div className="bg-gray-800/50 rounded-2xl border border-gray-700 mt-6 text-left">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-700">
+        <h3 className="text-sm font-bold text-gray-300">Messages</h3>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-1 text-xs text-gray-400">
+            <input type="checkbox" checked={autoCopy} onChange={e => onAutoCopyChange(e.target.checked)} />
+            Copy incoming text
+          </label>
+          {entries.length > 0 && (
+            <button onClick={onClear} className="text-gray-500 hover:text-red-400" title="Clear timeline">
+              <Trash2 size={14} />
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div ref={listRef} className="max-h-72 overflow-y-auto p-4 space-y-2">
+        {entries.length === 0 && (
+          <p className="text-xs text-gray-500 text-center">Send a link, a code or a pasted screenshot without making a file.</p>
+        )}
+        {entries.map(entry => entry.event ? (
+          <p key={entry.id} className="text-[11px] text-gray-500 text-center">
+            {formatTime(entry.at)} • {entry.direction === 'out' ? 'You' : 'Them'}: {entry.event}
+          </p>
+        ) : (
+          <div key={entry.id} className={`flex ${entry.direction === 'out' ? 'justify-end' : 'justify-start'}`}>
+            <div className={`max-w-[80%] rounded-2xl px-3 py-2 text-sm ${entry.direction === 'out' ? 'bg-blue-600 text-white' : 'bg-gray-900 border border-gray-700 text-gray-200'}`}>
+              {entry.imageUrl && (
+                <a href={entry.imageUrl} download={`image-${entry.at}`}>
+                  <img src={entry.imageUrl} alt="" className="rounded-lg max-h-48 object-contain" />
+                </a>
+              )}
+              {entry.text && <p className="whitespace-pre-wrap break-words">{renderText(entry.text)}</p>}
+              <div className="flex items-center justify-end gap-2 mt-1 text-[10px] opacity-60">
+                {entry.text && (
+                  <button onClick={() => navigator.clipboard.writeText(entry.text!)} title="Copy">
+                    <Copy size={11} />
+                  </button>
+                )}
+                {formatTime(entry.at)}
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2 p-3 border-t border-gray-700">
+        <label className={`p-2 rounded-lg text-gray-400 ${canSend ? 'hover:text-white cursor-pointer' : 'opacity-50'}`} title="Send an image">
+          <ImageIcon size={18} />
+          <input type="file" accept="image/*" className="hidden" disabled={!canSend} onChange={handleImageSelect} />
+        </label>
+        <textarea
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          onPaste={handlePaste}
+          onKeyDown={e => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              send();
+            }
+          }}
+          disabled={!canSend}
+          rows={1}
+          placeholder={canSend ? 'Message or paste an image' : 'Connect to send messages'}
+          className="flex-1 min-w-0 resize-none bg-gray-950 border border-gray-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-blue-500 disabled:opacity-50"
+        />
+        <button onClick={send} disabled={!canSend || !draft.trim()} className="px-3 rounded-lg bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white">
+          <Send size={16} />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Modal } from './Modal';
+import { ConnectionSettings, DEFAULT_SETTINGS, IceServerEntry, MAX_STRIPE_CHANNELS, validateSettings } from '../utils/settings';
+
+interface SettingsModalProps {
+  isOpen: boolean;
+  settings: ConnectionSettings;
+  onSave: (settings: ConnectionSettings) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-sm text-white placeholder-gray-600 focus:outline-none focus:border-blue-500';
+
+export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<ConnectionSettings>(settings);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  // Start from the saved values every time the panel opens
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(settings);
+      setErrors([]);
+    }
+  }, [isOpen, settings]);
+
+  const updateSignaling = (patch: Partial<ConnectionSettings['signaling']>) => {
+    setDraft(prev => ({ ...prev, signaling: { ...prev.signaling, ...patch } }));
+  };
+
+  const updateIceServer = (index: number, patch: Partial<IceServerEntry>) => {
+    setDraft(prev => ({ ...prev, iceServers: prev.iceServers.map((entry, i) => i === index ? { ...entry, ...patch } : entry) }));
+  };
+
+  const removeIceServer = (index: number) => {
+    setDraft(prev => ({ ...prev, iceServers: prev.iceServers.filter((_, i) => i !== index) }));
+  };
+
+  const addIceServer = () => {
+    setDraft(prev => ({ ...prev, iceServers: [...prev.iceServers, { url: '' }] }));
+  };
+
+  const handleSave = () => {
+    const cleaned: ConnectionSettings = {
+      signaling: {
+        ...draft.signaling,
+        host: draft.signaling.host.trim(),
+        port: draft.signaling.port.trim(),
+        path: draft.signaling.path.trim(),
+        key: draft.signaling.key.trim()
+      },
+      iceServers: draft.iceServers.map(entry => ({
+        url: entry.url.trim(),
+        username: entry.username?.trim() || undefined,
+        credential: entry.credential || undefined
+      })),
+      relayOnly: draft.relayOnly,
+      stripeChannels: draft.stripeChannels
+    };
+    const problems = validateSettings(cleaned);
+    setErrors(problems);
+    if (problems.length === 0) onSave(cleaned);
+  };
+
+  return (
+    <Modal isOpen={isOpen} title="Connection Settings" onClose={onClose}>
+      <div className="space-y-5 max-h-[65vh] overflow-y-auto pr-1 text-left">
+        <section className="space-y-2">
+          <h4 className="text-sm font-bold text-gray-300">Signaling server</h4>
+          <p className="text-xs text-gray-500">Leave the host empty to use the public PeerJS server.</p>
+          <input className={inputClass} placeholder="Host (e.g. peer.example.com)" value={draft.signaling.host} onChange={e => updateSignaling({ host: e.target.value })} />
+          <div className="flex gap-2">
+            <input className={inputClass} placeholder="Port" inputMode="numeric" value={draft.signaling.port} onChange={e => updateSignaling({ port: e.target.value })} />
+            <input className={inputClass} placeholder="Path" value={draft.signaling.path} onChange={e => updateSignaling({ path: e.target.value })} />
+          </div>
+          <input className={inputClass} placeholder="Key (optional)" value={draft.signaling.key} onChange={e => updateSignaling({ key: e.target.value })} />
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input type="checkbox" checked={draft.signaling.secure} onChange={e => updateSignaling({ secure: e.target.checked })} />
+            Use TLS (wss/https)
+          </label>
+        </section>
+
+        <section className="space-y-2">
+          <h4 className="text-sm font-bold text-gray-300">STUN / TURN servers</h4>
+          {draft.iceServers.map((entry, i) => (
+            <div key={i} className="bg-gray-900/60 border border-gray-700 rounded-lg p-2 space-y-2">
+              <div className="flex gap-2">
+                <input className={inputClass} placeholder="stun:host:3478 or turn:host:3478" value={entry.url} onChange={e => updateIceServer(i, { url: e.target.value })} />
+                <button onClick={() => removeIceServer(i)} className="p-2 text-gray-500 hover:text-red-400" title="Remove server">
+                  <Trash2 size={16} />
+                </button>
+              </div>
+              {/^turns?:/i.test(entry.url) && (
+                <div className="flex gap-2">
+                  <input className={inputClass} placeholder="Username" value={entry.username ?? ''} onChange={e => updateIceServer(i, { username: e.target.value })} />
+                  <input className={inputClass} type="password" placeholder="Credential" value={entry.credential ?? ''} onChange={e => updateIceServer(i, { credential: e.target.value })} />
+                </div>
+              )}
+            </div>
+          ))}
+          <button onClick={addIceServer} className="text-sm text-blue-400 hover:text-blue-300 flex items-center gap-1">
+            <Plus size={14} /> Add server
+          </button>
+        </section>
+
+        <section>
+          <label className="flex items-start gap-2 text-sm text-gray-300">
+            <input type="checkbox" className="mt-1" checked={draft.relayOnly} onChange={e => setDraft(prev => ({ ...prev, relayOnly: e.target.checked }))} />
+            <span>
+              Relay only
+              <span className="block text-xs text-gray-500">Route all traffic through your TURN server so peers never see your IP address. Slower on the same Wi-Fi.</span>
+            </span>
+          </label>
+        </section>
+
+        <section className="space-y-2">
+          <h4 className="text-sm font-bold text-gray-300">Parallel channels</h4>
+          <p className="text-xs text-gray-500">Send large files over several data channels at once. Can help on fast links with high latency; peers that do not support it get a single channel.</p>
+          <select className={inputClass} value={draft.stripeChannels} onChange={e => setDraft(prev => ({ ...prev, stripeChannels: Number(e.target.value) }))}>
+            <option value={1}>Off</option>
+            <option value={0}>Automatic</option>
+            {[2, 3, 4, 6, MAX_STRIPE_CHANNELS].map(count => <option key={count} value={count}>{count} channels</option>)}
+          </select>
+        </section>
+
+        {errors.length > 0 && (
+          <ul className="text-xs text-red-400 space-y-1 bg-red-500/10 border border-red-500/30 rounded-lg p-3">
+            {errors.map(error => <li key={error}>{error}</li>)}
+          </ul>
+        )}
+      </div>
+
+      <p className="text-xs text-gray-500 mt-4">Saving reconnects to the network.</p>
+      <div className="flex gap-2 mt-3">
+        <button onClick={() => setDraft(DEFAULT_SETTINGS)} className="px-4 py-2 rounded-lg text-sm text-gray-400 hover:text-white">
+          Defaults
+        </button>
+        <button onClick={onClose} className="flex-1 py-2 rounded-lg text-sm bg-gray-700 hover:bg-gray-600 text-white">
+          Cancel
+        </button>
+        <button onClick={handleSave} className="flex-1 py-2 rounded-lg text-sm font-bold bg-blue-600 hover:bg-blue-500 text-white">
+          Save
+        </button>
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,29 @@
+import React from 'react';
+import { TransferStats } from '../types';
+import { formatBytes, formatDuration, formatSpeed } from '../utils/format';
+
+interface TransferStatsLineProps {
+  stats: TransferStats;
+  finished?: boolean;
+}
+
+export const TransferStatsLine: React.FC<TransferStatsLineProps> = ({ stats, finished }) => {
+  if (finished) {
+    return (
+      <p className="text-xs text-gray-400 mt-2">
+        {formatBytes(stats.total)} at an average of {formatSpeed(stats.averageSpeed)}
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap justify-between gap-x-3 text-xs text-gray-400 mt-2 font-mono">
+      <span>{formatBytes(stats.transferred)} / {formatBytes(stats.total)}</span>
+      <span>
+        {formatSpeed(stats.currentSpeed)}
+        <span className="text-gray-600"> (avg {formatSpeed(stats.averageSpeed)})</span>
+        {stats.eta !== null && <> • {formatDuration(stats.eta)} left</>}
+      </span>
+    </div>
+  );
+};
@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PeerDevice } from '../types';
+import { PAIRING_CODE_TTL, PairingGuard } from './auth';
+
+const laptop: PeerDevice = { fingerprint: 'f'.repeat(64), name: 'Laptop' };
+
+describe('PairingGuard', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('window', globalThis);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('keeps the code valid for everyone who joins with it', () => {
+    const onCodeChange = vi.fn();
+    const guard = new PairingGuard(onCodeChange);
+    const { code } = guard.current;
+    expect(guard.check('peer-a', code, laptop)).toBeNull();
+    expect(guard.check('peer-b', code, null)).toBeNull();
+    expect(guard.current.code).toBe(code);
+    expect(onCodeChange).not.toHaveBeenCalled();
+  });
+
+  it('replaces the code when it expires', () => {
+    const onCodeChange = vi.fn();
+    const guard = new PairingGuard(onCodeChange);
+    const { expiresAt } = guard.current;
+    vi.advanceTimersByTime(PAIRING_CODE_TTL);
+    expect(onCodeChange).toHaveBeenCalledOnce();
+    expect(guard.current.expiresAt).toBeGreaterThan(expiresAt);
+  });
+
+  it('admits a paired device again by its key, not by its peer ID', () => {
+    const guard = new PairingGuard(() => {});
+    guard.check('peer-a', guard.current.code, laptop);
+    expect(guard.admits(laptop)).toBe(true);
+    expect(guard.admits({ fingerprint: 'e'.repeat(64), name: 'Laptop' })).toBe(false);
+  });
+
+  it('never admits a peer without a device key', () => {
+    const guard = new PairingGuard(() => {});
+    guard.check('peer-a', guard.current.code, null);
+    expect(guard.admits(null)).toBe(false);
+  });
+});
@@ -0,0 +1,100 @@
+import { PeerDevice } from '../types';
+import { isTrustedDevice, loadTrustedDevices } from '../utils/identity';
+
+// Pairing check that runs inside the encrypted channel, before any session packet is handled.
+// The dialled side (listener) shows a pairing code; whoever dials in (connector) has to type it. The
+// code stays valid until it expires or is renewed, so several receivers can join a broadcast room with it.
+// Trusted devices and devices that already paired during this visit are let through without a code.
+
+export const PAIRING_CODE_TTL = 5 * 60 * 1000;
+// How long a connector has to answer the challenge before the listener hangs up
+export const AUTH_TIMEOUT = 60 * 1000;
+const MAX_FAILURES_PER_PEER = 3;
+const BLOCK_DURATION = 10 * 60 * 1000;
+// Wrong guesses against one code, from any peer, before it is replaced
+const MAX_FAILURES_PER_CODE = 5;
+
+export interface PairingCode {
+  code: string;
+  expiresAt: number;
+}
+
+export interface ListenerAuth {
+  role: 'listener';
+  peerId: string;
+  guard: PairingGuard;
+}
+
+export interface ConnectorAuth {
+  role: 'connector';
+  // Asks the user (or a code that came with the link); null gives up and closes the connection
+  requestCode(): Promise<string | null>;
+  onRejected(reason: string): void;
+}
+
+export type ChannelAuth = ListenerAuth | ConnectorAuth;
+
+const randomCode = () => (crypto.getRandomValues(new Uint32Array(1))[0] % 1_000_000).toString().padStart(6, '0');
+
+// Owns the current pairing code and keeps count of failed attempts per peer ID
+export class PairingGuard {
+  private code: PairingCode = { code: '', expiresAt: 0 };
+  private codeFailures = 0;
+  private timer: number | null = null;
+  private peers = new Map<string, { failures: number; blockedUntil: number }>();
+  // Device keys that paired during this visit, so a reconnect to resume a transfer is not asked again.
+  // Keyed by the signed device key rather than the peer ID, which anyone can claim; peers without a
+  // device key are asked every time.
+  private admitted = new Set<string>();
+
+  constructor(private onCodeChange: (code: PairingCode) => void) {
+    this.renew();
+  }
+
+  get current() {
+    return this.code;
+  }
+
+  // Replaces the code now; also runs when it expires or has been guessed at too often
+  rotate() {
+    this.renew();
+    this.onCodeChange(this.code);
+  }
+
+  private renew() {
+    if (this.timer) clearTimeout(this.timer);
+    this.code = { code: randomCode(), expiresAt: Date.now() + PAIRING_CODE_TTL };
+    this.codeFailures = 0;
+    this.timer = window.setTimeout(() => this.rotate(), PAIRING_CODE_TTL);
+  }
+
+  isBlocked(peerId: string) {
+    return (this.peers.get(peerId)?.blockedUntil ?? 0) > Date.now();
+  }
+
+  admits(device: PeerDevice | null) {
+    if (isTrustedDevice(device, loadTrustedDevices())) return true;
+    return !!device && this.admitted.has(device.fingerprint);
+  }
+
+  // Returns why the code was refused, or null when it was accepted
+  check(peerId: string, code: string, device: PeerDevice | null): string | null {
+    if (this.isBlocked(peerId)) return 'Too many wrong codes. Try again later.';
+    if (code === this.code.code && Date.now() < this.code.expiresAt) {
+      this.peers.delete(peerId);
+      if (device) this.admitted.add(device.fingerprint);
+      return null;
+    }
+
+    const peer = this.peers.get(peerId) ?? { failures: 0, blockedUntil: 0 };
+    peer.failures++;
+    if (peer.failures >= MAX_FAILURES_PER_PEER) {
+      peer.failures = 0;
+      peer.blockedUntil = Date.now() + BLOCK_DURATION;
+    }
+    this.peers.set(peerId, peer);
+    // Someone cycling through peer IDs still only gets a handful of guesses per code
+    if (++this.codeFailures >= MAX_FAILURES_PER_CODE) this.rotate();
+    return 'Wrong or expired pairing code.';
+  }
+}
@@ -0,0 +1,240 @@
+import { BroadcastMember, FileOutcome, FilePreview, QueuedFile, TransferError, TransferEvent, TransferState } from '../types';
+import { ChannelAuth } from './auth';
+import { MAX_REJECT_REASON_LENGTH, SessionPacket, isFromSender } from './packets';
+import { HEARTBEAT_INTERVAL, SecureChannel } from './secureChannel';
+import { SenderSession, hashItems, previewItems } from './senderSession';
+import { IDLE_PROGRESS, applyTransferEvent, transferFlags } from './transferMachine';
+import { Transport } from './transport';
+
+const CONNECT_TIMEOUT = 10000;
+
+export interface BroadcastEvents {
+  onMembersChange(members: BroadcastMember[]): void;
+  // null once hashing is over
+  onHashProgress(percent: number | null): void;
+  onFileDone(peerId: string, outcome: FileOutcome): void;
+}
+
+interface Member {
+  info: BroadcastMember;
+  session: SenderSession;
+  channel: SecureChannel | null;
+  // Last batch offered to this receiver, offered again if it reconnects mid-transfer
+  items: QueuedFile[];
+}
+
+// Sends one queue to many receivers. Each receiver gets its own channel and SenderSession, so it
+// approves, transfers, fails or resumes without affecting the others.
+export class Broadcast {
+  private members = new Map<string, Member>();
+  private heartbeat: number | null = null;
+  private hashing = false;
+  // Applied to every receiver's session (see StripePool)
+  stripeChannels = 1;
+
+  constructor(private events: BroadcastEvents) {}
+
+  has(peerId: string) {
+    return this.members.has(peerId);
+  }
+
+  // A receiver that connects again under the same ID keeps its session, so an interrupted batch resumes
+  add(peerId: string, transport: Transport, auth?: ChannelAuth) {
+    let member = this.members.get(peerId);
+    if (member) {
+      member.channel?.close();
+    } else {
+      member = {
+        info: { ...IDLE_PROGRESS, peerId, sasCode: null, device: null, declined: false },
+        session: this.createSession(peerId),
+        channel: null,
+        items: []
+      };
+      this.members.set(peerId, member);
+    }
+    this.update(peerId, { sasCode: null, device: null });
+    this.apply(peerId, { type: 'dial', message: 'Connecting...' });
+
+    const current = member;
+    const channel = new SecureChannel(
+      transport,
+      (packet) => this.route(peerId, packet),
+      (sasCode, device) => {
+        if (current.channel !== channel) return;
+        this.update(peerId, { sasCode, device });
+        if (current.session.resumePending && current.items.length > 0) {
+          this.apply(peerId, { type: 'verified', message: 'Reconnected. Resuming transfer...' });
+          current.session.requestSend(current.items);
+        } else {
+          this.apply(peerId, { type: 'verified', message: 'Connected' });
+        }
+      },
+      { auth }
+    );
+    current.channel = channel;
+
+    const handleOpen = () => {
+      if (current.channel !== channel) return;
+      current.session.stripeChannels = this.stripeChannels;
+      current.session.attach(channel);
+      this.startHeartbeat();
+      this.apply(peerId, { type: 'note', message: auth?.role === 'connector' ? 'Waiting for the pairing code...' : 'Verifying...' });
+    };
+    if (transport.open) {
+      handleOpen();
+    } else {
+      transport.onOpen(handleOpen);
+    }
+    transport.onStripe?.(stripe => channel.createStripe(stripe));
+
+    transport.onClose(() => {
+      if (current.channel !== channel) return;
+      current.channel = null;
+      current.session.detach();
+      // A transfer in flight reports its own failure, as does a refused pairing code; finished and declined receivers may simply leave
+      const { active, finished } = transferFlags(current.info);
+      if (!current.info.declined && !active && !finished) {
+        if (current.info.state === TransferState.CONNECTING) {
+          this.fail(peerId, 'unreachable', 'Could not connect.');
+        } else {
+          this.fail(peerId, 'disconnected', 'Disconnected.');
+        }
+      }
+    });
+
+    setTimeout(() => {
+      if (current.channel === channel && !channel.open) channel.close();
+    }, CONNECT_TIMEOUT);
+  }
+
+  // Extra striping connections from a receiver join that receiver's channel
+  adoptStripe(peerId: string, transport: Transport) {
+    const channel = this.members.get(peerId)?.channel;
+    if (!channel) return false;
+    channel.createStripe(transport);
+    return true;
+  }
+
+  fail(peerId: string, error: TransferError, message: string) {
+    this.apply(peerId, { type: 'fail', error, message });
+  }
+
+  remove(peerId: string) {
+    const member = this.members.get(peerId);
+    if (!member) return;
+    this.members.delete(peerId);
+    member.channel?.close();
+    member.session.detach();
+    if (this.members.size === 0) this.stopHeartbeat();
+    this.emit();
+  }
+
+  close() {
+    [...this.members.keys()].forEach(peerId => this.remove(peerId));
+  }
+
+  // Offers the queue to every connected receiver that is not already busy with an earlier offer.
+  // Files are hashed (and previewed) once here rather than once per receiver.
+  async send(items: QueuedFile[]) {
+    const targets = [...this.members.values()].filter(member => member.channel?.open && !transferFlags(member.info).busy);
+    if (this.hashing || targets.length === 0 || items.length === 0) return;
+
+    let hashes: string[];
+    let previews: (FilePreview | null | undefined)[];
+    this.hashing = true;
+    this.events.onHashProgress(0);
+    try {
+      hashes = await hashItems(items, this.events.onHashProgress);
+      previews = await previewItems(items);
+    } catch (err) {
+      console.error('Failed to hash files:', err);
+      targets.forEach(member => this.fail(member.info.peerId, 'unreadable', 'Could not read one of the files.'));
+      return;
+    } finally {
+      this.hashing = false;
+      this.events.onHashProgress(null);
+    }
+
+    const hashed = items.map((item, i) => ({ ...item, sha256: hashes[i], preview: previews[i], status: 'pending' as const, progress: 0 }));
+    targets.forEach(member => {
+      member.items = hashed;
+      member.session.reset();
+      this.update(member.info.peerId, { declined: false, progress: 0, stats: null });
+      member.session.requestSend(hashed);
+    });
+  }
+
+  private createSession(peerId: string) {
+    return new SenderSession({
+      onStatus: (event) => {
+        // Keep "declined" until the next offer instead of the session's own failure message
+        if (!this.members.get(peerId)?.info.declined) this.apply(peerId, event);
+      },
+      // Per-file progress is not shown per receiver
+      onItemUpdate: () => {},
+      onProgress: (progress) => this.update(peerId, { progress }),
+      onStats: (stats) => this.update(peerId, { stats }),
+      // Hashing happens once for all receivers in send()
+      onHashProgress: () => {},
+      onBatchOffered: () => {},
+      onFileDone: (outcome) => this.events.onFileDone(peerId, outcome)
+    });
+  }
+
+  private route(peerId: string, packet: SessionPacket) {
+    const member = this.members.get(peerId);
+    if (!member) return;
+    // Receivers do not send files back to the broadcaster
+    if (isFromSender(packet)) {
+      console.warn(`Broadcast ignored '${packet.type}' from ${peerId}`);
+      return;
+    }
+    if (packet.type === 'reject') {
+      const reason = packet.payload?.reason?.slice(0, MAX_REJECT_REASON_LENGTH);
+      this.apply(peerId, { type: 'reset', message: reason ? `Declined: ${reason}` : 'Declined' });
+      this.update(peerId, { declined: true });
+    }
+    member.session.handlePacket(packet);
+  }
+
+  private apply(peerId: string, event: TransferEvent) {
+    const member = this.members.get(peerId);
+    if (!member) return;
+    const info = applyTransferEvent(member.info, event, `Broadcast to ${peerId}`);
+    if (info === member.info) return;
+    member.info = info;
+    this.emit();
+  }
+
+  private update(peerId: string, patch: Partial<BroadcastMember>) {
+    const member = this.members.get(peerId);
+    if (!member) return;
+    member.info = { ...member.info, ...patch };
+    this.emit();
+  }
+
+  private emit() {
+    this.events.onMembersChange([...this.members.values()].map(member => member.info));
+  }
+
+  private startHeartbeat() {
+    if (this.heartbeat) return;
+    this.heartbeat = window.setInterval(() => {
+      // A peer that went silent is hung up on, as if it had disconnected
+      this.members.forEach(({ channel }) => {
+        if (channel?.isStale) {
+          channel.close();
+        } else {
+          channel?.sendHeartbeat();
+        }
+      });
+    }, HEARTBEAT_INTERVAL);
+  }
+
+  private stopHeartbeat() {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+  }
+}
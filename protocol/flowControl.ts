@@ -0,0 +1,41 @@
+import { ThroughputMeter } from '../utils/throughput';
+
+// Sizes chunks and the send window from measured throughput. The window is how much may sit in the
+// channel's buffer: about WINDOW_TIME worth of data keeps the link busy without piling up latency, and
+// sending resumes (on bufferedamountlow) once half of it has drained.
+
+const MIN_CHUNK_SIZE = 16 * 1024;
+const MAX_CHUNK_SIZE = 256 * 1024;
+const MIN_WINDOW = 256 * 1024;
+// PeerJS stops handing data to the channel past 8MB of bufferedAmount and queues the rest in memory,
+// where bufferedAmount no longer sees it; staying below that (with room for a chunk) keeps the window honest
+const MAX_WINDOW = 6 * 1024 * 1024;
+const WINDOW_TIME = 0.25; // seconds of data kept in flight
+const CHUNKS_PER_SECOND = 100; // bigger chunks as the link gets faster, to cut per-chunk overhead
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export class FlowController {
+  chunkSize = 64 * 1024;
+  window = 1024 * 1024;
+  private maxChunkSize: number;
+
+  constructor(private meter: ThroughputMeter, transportLimit: number) {
+    this.maxChunkSize = Math.max(MIN_CHUNK_SIZE, Math.min(MAX_CHUNK_SIZE, transportLimit));
+    this.chunkSize = Math.min(this.chunkSize, this.maxChunkSize);
+  }
+
+  get lowWater() {
+    return this.window / 2;
+  }
+
+  // Called after every chunk
+  adapt() {
+    const rate = this.meter.current;
+    if (!rate) return;
+    // Multiples of 16KB keep reads aligned
+    const chunk = Math.round(rate / CHUNKS_PER_SECOND / MIN_CHUNK_SIZE) * MIN_CHUNK_SIZE;
+    this.chunkSize = clamp(chunk, MIN_CHUNK_SIZE, this.maxChunkSize);
+    this.window = clamp(rate * WINDOW_TIME, MIN_WINDOW, MAX_WINDOW);
+  }
+}
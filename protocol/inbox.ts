@@ -0,0 +1,224 @@
+import { FileOutcome, InboxSender, TransferEvent, TransferState } from '../types';
+import { checkOffer, loadAcceptancePolicy } from '../utils/acceptance';
+import { isTrustedDevice, loadTrustedDevices } from '../utils/identity';
+import { ChannelAuth } from './auth';
+import { SessionPacket, isFromSender } from './packets';
+import { ReceiverSession, ReceiverSessionEvents } from './receiverSession';
+import { HEARTBEAT_INTERVAL, SecureChannel } from './secureChannel';
+import { IDLE_PROGRESS, applyTransferEvent, transferFlags } from './transferMachine';
+import { Transport } from './transport';
+
+const CONNECT_TIMEOUT = 10000;
+
+export interface InboxEvents {
+  onSendersChange(senders: InboxSender[]): void;
+  onFileDone(peerId: string, outcome: FileOutcome): void;
+}
+
+interface Entry {
+  info: InboxSender;
+  session: ReceiverSession;
+  channel: SecureChannel | null;
+  // Where the current batch starts in info.files
+  batchStart: number;
+}
+
+// Receives from several senders at once. Each sender gets its own channel and ReceiverSession,
+// so offers are accepted or rejected one by one and a new sender never disturbs a running transfer.
+export class Inbox {
+  private entries = new Map<string, Entry>();
+  private heartbeat: number | null = null;
+
+  constructor(private events: InboxEvents) {}
+
+  has(peerId: string) {
+    return this.entries.has(peerId);
+  }
+
+  get isEmpty() {
+    return this.entries.size === 0;
+  }
+
+  // A sender that reconnects under the same ID keeps its session, so an interrupted batch resumes
+  add(peerId: string, transport: Transport, auth?: ChannelAuth) {
+    let entry = this.entries.get(peerId);
+    if (entry) {
+      entry.channel?.close();
+    } else {
+      entry = {
+        info: { ...IDLE_PROGRESS, peerId, sasCode: null, device: null, connected: false, offer: null, files: [] },
+        // Senders often share the same file, so temporary storage is kept per sender
+        session: new ReceiverSession(this.createSessionEvents(peerId), `${peerId}-`),
+        channel: null,
+        batchStart: 0
+      };
+      this.entries.set(peerId, entry);
+    }
+    this.update(peerId, { sasCode: null, device: null });
+
+    const current = entry;
+    const channel = new SecureChannel(
+      transport,
+      (packet) => this.route(peerId, packet),
+      // Only a sender that passed the pairing check is listed as connected
+      (sasCode, device) => {
+        if (current.channel === channel) this.update(peerId, { sasCode, device, connected: true });
+      },
+      { auth }
+    );
+    current.channel = channel;
+
+    const handleOpen = () => {
+      if (current.channel !== channel) return;
+      current.session.attach(channel);
+      this.startHeartbeat();
+    };
+    if (transport.open) {
+      handleOpen();
+    } else {
+      transport.onOpen(handleOpen);
+    }
+    transport.onStripe?.(stripe => channel.createStripe(stripe));
+
+    transport.onClose(() => {
+      if (current.channel !== channel) return;
+      current.channel = null;
+      current.session.detach();
+      const { state } = current.info;
+      if (transferFlags(current.info).active) {
+        this.update(peerId, { connected: false });
+        this.apply(peerId, { type: 'fail', error: 'disconnected', message: 'Disconnected. Will resume if they reconnect.' });
+      } else {
+        this.update(peerId, { connected: false, offer: null });
+        if (state === TransferState.WAITING_APPROVAL) this.apply(peerId, { type: 'reset' });
+      }
+    });
+
+    setTimeout(() => {
+      if (current.channel === channel && !channel.open) channel.close();
+    }, CONNECT_TIMEOUT);
+  }
+
+  // Extra striping connections from a sender join that sender's channel
+  adoptStripe(peerId: string, transport: Transport) {
+    const channel = this.entries.get(peerId)?.channel;
+    if (!channel) return false;
+    channel.createStripe(transport);
+    return true;
+  }
+
+  async accept(peerId: string) {
+    const entry = this.entries.get(peerId);
+    const offer = entry?.info.offer;
+    if (!entry || !offer) return;
+    entry.batchStart = entry.info.files.length;
+    this.update(peerId, {
+      offer: null,
+      files: entry.info.files.concat(offer.files.map(meta => ({ meta, status: 'pending', progress: 0 })))
+    });
+    await entry.session.accept('files');
+  }
+
+  async reject(peerId: string) {
+    const entry = this.entries.get(peerId);
+    if (!entry) return;
+    this.update(peerId, { offer: null });
+    await entry.session.reject();
+  }
+
+  // Drops the sender and everything received from it
+  async remove(peerId: string) {
+    const entry = this.entries.get(peerId);
+    if (!entry) return;
+    this.entries.delete(peerId);
+    entry.channel?.close();
+    entry.session.detach();
+    entry.info.files.forEach(file => file.url && URL.revokeObjectURL(file.url));
+    if (this.entries.size === 0) this.stopHeartbeat();
+    this.emit();
+    await entry.session.reset();
+  }
+
+  close() {
+    [...this.entries.keys()].forEach(peerId => this.remove(peerId));
+  }
+
+  private createSessionEvents(peerId: string): ReceiverSessionEvents {
+    return {
+      onStatus: (event) => this.apply(peerId, event),
+      screenOffer: (manifest) => {
+        const device = this.entries.get(peerId)?.info.device ?? null;
+        return checkOffer(manifest, loadAcceptancePolicy(), isTrustedDevice(device, loadTrustedDevices()));
+      },
+      onOffer: (manifest) => {
+        this.update(peerId, { offer: manifest });
+        this.apply(peerId, { type: 'offer', message: 'Waiting for your approval' });
+      },
+      onFileUpdate: (index, patch) => {
+        const entry = this.entries.get(peerId);
+        if (!entry) return;
+        const at = entry.batchStart + index;
+        this.update(peerId, { files: entry.info.files.map((file, i) => i === at ? { ...file, ...patch } : file) });
+      },
+      onProgress: (progress) => this.update(peerId, { progress }),
+      onStats: (stats) => this.update(peerId, { stats }),
+      // Inbox batches are always saved as separate files
+      onArchive: () => {},
+      onSavedToFolder: () => {},
+      onCancelled: () => this.update(peerId, { offer: null }),
+      onFileDone: (outcome) => this.events.onFileDone(peerId, outcome)
+    };
+  }
+
+  private route(peerId: string, packet: SessionPacket) {
+    const entry = this.entries.get(peerId);
+    if (!entry) return;
+    // The inbox only receives
+    if (!isFromSender(packet)) {
+      console.warn(`Inbox ignored '${packet.type}' from ${peerId}`);
+      return;
+    }
+    entry.session.handlePacket(packet);
+  }
+
+  private apply(peerId: string, event: TransferEvent) {
+    const entry = this.entries.get(peerId);
+    if (!entry) return;
+    const info = applyTransferEvent(entry.info, event, `Inbox from ${peerId}`);
+    if (info === entry.info) return;
+    entry.info = info;
+    this.emit();
+  }
+
+  private update(peerId: string, patch: Partial<InboxSender>) {
+    const entry = this.entries.get(peerId);
+    if (!entry) return;
+    entry.info = { ...entry.info, ...patch };
+    this.emit();
+  }
+
+  private emit() {
+    this.events.onSendersChange([...this.entries.values()].map(entry => entry.info));
+  }
+
+  private startHeartbeat() {
+    if (this.heartbeat) return;
+    this.heartbeat = window.setInterval(() => {
+      // A peer that went silent is hung up on, as if it had disconnected
+      this.entries.forEach(({ channel }) => {
+        if (channel?.isStale) {
+          channel.close();
+        } else {
+          channel?.sendHeartbeat();
+        }
+      });
+    }, HEARTBEAT_INTERVAL);
+  }
+
+  private stopHeartbeat() {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+  }
+}
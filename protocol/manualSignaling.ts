@@ -0,0 +1,129 @@
+import { Transport, fromDataChannel } from './transport';
+
+// Pairing without a signaling server. Each side waits for ICE gathering to finish so its session
+// description carries every candidate, then turns it into a short text code (also shown as a QR code)
+// that the other side pastes or scans. Offer and answer are the only two messages needed.
+
+const CODE_VERSION = 'PS1';
+const ICE_GATHER_TIMEOUT = 5000;
+const CONNECT_TIMEOUT = 30000;
+
+type DescriptionKind = 'offer' | 'answer';
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+const supportsCompression = () => typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined';
+
+const pipeThrough = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+// Code layout: PS1.<o|a><z|r>.<base64url>, where z marks deflated SDP and r raw SDP
+const encodeDescription = async (kind: DescriptionKind, sdp: string) => {
+  const raw = new TextEncoder().encode(sdp);
+  const compressed = supportsCompression();
+  const body = compressed ? await pipeThrough(raw, new CompressionStream('deflate-raw')) : raw;
+  return `${CODE_VERSION}.${kind === 'offer' ? 'o' : 'a'}${compressed ? 'z' : 'r'}.${toBase64Url(body)}`;
+};
+
+const decodeDescription = async (kind: DescriptionKind, code: string) => {
+  const [version, flags, body] = code.trim().split('.');
+  if (version !== CODE_VERSION || !flags || !body) throw new Error('This is not a pairing code.');
+  if (flags[0] !== (kind === 'offer' ? 'o' : 'a')) {
+    throw new Error(kind === 'offer' ? 'This is a reply code. Paste it on the sending device.' : 'This is an invite code. Paste it on the receiving device.');
+  }
+  try {
+    const bytes = fromBase64Url(body);
+    const sdp = flags[1] === 'z' ? await pipeThrough(bytes, new DecompressionStream('deflate-raw')) : bytes;
+    return new TextDecoder().decode(sdp);
+  } catch {
+    throw new Error('The pairing code is damaged. Copy it again.');
+  }
+};
+
+const waitForIceGathering = (pc: RTCPeerConnection) => new Promise<void>(resolve => {
+  if (pc.iceGatheringState === 'complete') return resolve();
+  // Use whatever was gathered so far if a slow STUN/TURN server holds things up
+  const timer = setTimeout(resolve, ICE_GATHER_TIMEOUT);
+  pc.addEventListener('icegatheringstatechange', () => {
+    if (pc.iceGatheringState === 'complete') {
+      clearTimeout(timer);
+      resolve();
+    }
+  });
+});
+
+const waitForOpen = (pc: RTCPeerConnection, channel: RTCDataChannel, timeout?: number) => new Promise<Transport>((resolve, reject) => {
+  const timer = timeout ? setTimeout(() => fail('Could not connect. Make sure both devices are on the same network.'), timeout) : undefined;
+  const fail = (message: string) => {
+    clearTimeout(timer);
+    pc.close();
+    reject(new Error(message));
+  };
+  if (channel.readyState === 'open') {
+    clearTimeout(timer);
+    return resolve(fromDataChannel(pc, channel));
+  }
+  channel.addEventListener('open', () => {
+    clearTimeout(timer);
+    resolve(fromDataChannel(pc, channel));
+  });
+  pc.addEventListener('connectionstatechange', () => {
+    if (pc.connectionState === 'failed') fail('Connection failed. Try pairing again.');
+  });
+});
+
+export interface ManualOffer {
+  code: string;
+  // Applies the receiver's reply code; resolves once the data channel is open
+  accept(answerCode: string): Promise<Transport>;
+  cancel(): void;
+}
+
+export interface ManualAnswer {
+  code: string;
+  // Resolves once the sender has applied the reply and the data channel is open
+  connected: Promise<Transport>;
+  cancel(): void;
+}
+
+export const createManualOffer = async (config: RTCConfiguration): Promise<ManualOffer> => {
+  const pc = new RTCPeerConnection(config);
+  const channel = pc.createDataChannel('privateshare', { ordered: true });
+  await pc.setLocalDescription(await pc.createOffer());
+  await waitForIceGathering(pc);
+  return {
+    code: await encodeDescription('offer', pc.localDescription!.sdp),
+    accept: async (answerCode) => {
+      const sdp = await decodeDescription('answer', answerCode);
+      await pc.setRemoteDescription({ type: 'answer', sdp });
+      return waitForOpen(pc, channel, CONNECT_TIMEOUT);
+    },
+    cancel: () => pc.close()
+  };
+};
+
+// Throws for a malformed or wrong-kind code before any connection is created
+export const answerManualOffer = async (config: RTCConfiguration, offerCode: string): Promise<ManualAnswer> => {
+  const sdp = await decodeDescription('offer', offerCode);
+  const pc = new RTCPeerConnection(config);
+  const channel = new Promise<RTCDataChannel>(resolve => {
+    pc.addEventListener('datachannel', (e) => resolve(e.channel));
+  });
+  await pc.setRemoteDescription({ type: 'offer', sdp });
+  await pc.setLocalDescription(await pc.createAnswer());
+  await waitForIceGathering(pc);
+  return {
+    code: await encodeDescription('answer', pc.localDescription!.sdp),
+    connected: channel.then(ch => waitForOpen(pc, ch)),
+    cancel: () => pc.close()
+  };
+};
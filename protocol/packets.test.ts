@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { isFromSender, isSessionPacket, validatePacket } from './packets';
+
+const SHA = 'a'.repeat(64);
+
+const file = (overrides: Record<string, unknown> = {}) => ({
+  name: 'notes.txt',
+  size: 10,
+  type: 'text/plain',
+  transferId: 'abc-a',
+  sha256: SHA,
+  ...overrides
+});
+
+describe('validatePacket', () => {
+  it('accepts well-formed packets', () => {
+    expect(validatePacket({ type: 'file-start', payload: { index: 0, offset: 0 } })).not.toBeNull();
+    expect(validatePacket({ type: 'auth-challenge' })).not.toBeNull();
+    expect(validatePacket({ type: 'heartbeat' })).not.toBeNull();
+    expect(validatePacket({ type: 'reject', payload: { reason: 'Too large.' } })).not.toBeNull();
+    expect(validatePacket({ type: 'file-chunk', payload: { offset: 0, data: new ArrayBuffer(4), hash: SHA, encoding: 'deflate' } })).not.toBeNull();
+  });
+
+  it('rejects values that are not packets', () => {
+    expect(validatePacket(null)).toBeNull();
+    expect(validatePacket('file-start')).toBeNull();
+    expect(validatePacket({ payload: {} })).toBeNull();
+    expect(validatePacket({ type: 42 })).toBeNull();
+    expect(validatePacket({ type: 'unknown' })).toBeNull();
+  });
+
+  it('rejects types inherited from Object.prototype without throwing', () => {
+    for (const type of ['toString', 'constructor', '__proto__', 'valueOf', 'hasOwnProperty']) {
+      expect(() => validatePacket({ type, payload: {} })).not.toThrow();
+      expect(validatePacket({ type, payload: {} })).toBeNull();
+    }
+  });
+
+  it('checks payload fields', () => {
+    expect(validatePacket({ type: 'file-start', payload: { index: -1, offset: 0 } })).toBeNull();
+    expect(validatePacket({ type: 'file-start', payload: { index: 0, offset: 1.5 } })).toBeNull();
+    expect(validatePacket({ type: 'file-chunk', payload: { offset: 0, data: 'text', hash: SHA } })).toBeNull();
+    expect(validatePacket({ type: 'file-chunk', payload: { offset: 0, data: new ArrayBuffer(1), hash: SHA, encoding: 'br' } })).toBeNull();
+    expect(validatePacket({ type: 'pause', payload: { by: 'someone' } })).toBeNull();
+    expect(validatePacket({ type: 'message', payload: {} })).toBeNull();
+    expect(validatePacket({ type: 'approve', payload: { resume: { abc: -5 } } })).toBeNull();
+  });
+
+  it('requires a manifest total that matches its files', () => {
+    const files = [file(), file({ name: 'b.txt', transferId: 'abc-b', size: 5 })];
+    expect(validatePacket({ type: 'batch-meta', payload: { files, totalSize: 15 } })).not.toBeNull();
+    expect(validatePacket({ type: 'batch-meta', payload: { files, totalSize: 1 } })).toBeNull();
+    expect(validatePacket({ type: 'batch-meta', payload: { files: [file({ sha256: 'nothex' })], totalSize: 10 } })).toBeNull();
+  });
+
+  it('only allows inline images as previews', () => {
+    const manifest = (preview: unknown) => ({ type: 'batch-meta', payload: { files: [file({ preview })], totalSize: 10 } });
+    expect(validatePacket(manifest({ kind: 'image', url: 'data:image/png;base64,AAAA' }))).not.toBeNull();
+    expect(validatePacket(manifest({ kind: 'text', text: 'hello' }))).not.toBeNull();
+    expect(validatePacket(manifest({ kind: 'image', url: 'https://example.com/a.png' }))).toBeNull();
+    expect(validatePacket(manifest({ kind: 'image', url: 'data:image/svg+xml;base64,AAAA' }))).toBeNull();
+  });
+});
+
+describe('packet groups', () => {
+  it('separates transport packets from session packets', () => {
+    expect(isSessionPacket(validatePacket({ type: 'heartbeat' })!)).toBe(false);
+    expect(isSessionPacket(validatePacket({ type: 'file-end', payload: { index: 0 } })!)).toBe(true);
+  });
+
+  it('tells sender packets from receiver packets', () => {
+    expect(isFromSender({ type: 'file-end', payload: { index: 0 } })).toBe(true);
+    expect(isFromSender({ type: 'approve' })).toBe(false);
+  });
+});
@@ -0,0 +1,195 @@
+import { BatchManifest, CompressionFormat } from '../types';
+import { MAX_PREVIEW_TEXT_LENGTH, MAX_PREVIEW_URL_LENGTH } from '../utils/preview';
+
+// Wire format shared by both peers. Bump PROTOCOL_VERSION on any incompatible change;
+// it is exchanged in the handshake and peers with a different version are refused.
+export const PROTOCOL_VERSION = 2;
+
+// Every chunk carries its offset and its own hash so a corrupt one can be re-requested.
+// With striping, chunks of one file travel over several channels and may arrive out of order,
+// so they also name the file they belong to.
+// Offsets and the hash always refer to the original bytes; `encoding` is set when `data` is compressed.
+export interface ChunkPayload {
+  index?: number;
+  offset: number;
+  data: ArrayBuffer;
+  hash: string;
+  encoding?: CompressionFormat;
+}
+
+// Receiver's answer after file-end (or early, if it gave up on a chunk)
+export interface FileAck {
+  index: number;
+  ok: boolean;
+  // Offset to resend from when a chunk failed verification
+  retry?: number;
+  reason?: string;
+}
+
+// --- Transport-level packets (sent in the clear) ---
+// identityKey, signature and name are the device identity (see utils/identity); peers without one leave them out
+export interface HandshakePacket {
+  type: 'handshake';
+  payload: { version: number; publicKey: ArrayBuffer; identityKey?: ArrayBuffer; signature?: ArrayBuffer; name?: string };
+}
+// ping is the sender's clock; the peer answers with the same value as pong, which gives the round trip.
+// Peers that predate round-trip measurement send neither.
+export interface HeartbeatPacket { type: 'heartbeat'; payload?: { ping?: number; pong?: number } }
+export interface EncryptedPacket { type: 'encrypted'; payload: { iv: ArrayBuffer; data: ArrayBuffer } }
+
+// --- Session packets (always sealed inside `encrypted`) ---
+export interface BatchMetaPacket { type: 'batch-meta'; payload: BatchManifest }
+// resume maps transferId to the byte offset the receiver already holds; stripes is how many extra
+// channels the receiver accepts (absent from peers without striping support); compression lists the
+// formats it can decompress
+export interface ApprovePacket { type: 'approve'; payload?: { resume?: Record<string, number>; stripes?: number; compression?: CompressionFormat[] } }
+export const MAX_REJECT_REASON_LENGTH = 200;
+// reason is set when the receiver's acceptance rules declined the batch without asking
+export interface RejectPacket { type: 'reject'; payload?: { reason?: string } }
+export interface FileStartPacket { type: 'file-start'; payload: { index: number; offset: number } }
+export interface FileChunkPacket { type: 'file-chunk'; payload: ChunkPayload }
+export interface FileEndPacket { type: 'file-end'; payload: { index: number } }
+export interface FileErrorPacket { type: 'file-error'; payload: { index: number; reason: string } }
+export interface FileAckPacket { type: 'file-ack'; payload: FileAck }
+export interface ChunkRetryPacket { type: 'chunk-retry'; payload: FileAck }
+export interface BatchEndPacket { type: 'batch-end'; payload: { completed: number; total: number } }
+// Pairing check right after the handshake (see auth.ts). The channel handles these itself; they never
+// reach a session.
+export interface AuthChallengePacket { type: 'auth-challenge' }
+export interface AuthPacket { type: 'auth'; payload: { code: string } }
+export interface AuthResultPacket { type: 'auth-result'; payload: { ok: boolean; reason?: string } }
+// Pause, resume and cancel can come from either end of a transfer. `by` names the side that sent it,
+// since with both devices sending at once the type alone does not say which transfer it is about.
+export type TransferRole = 'sender' | 'receiver';
+export interface PausePacket { type: 'pause'; payload: { by: TransferRole } }
+export interface ResumePacket { type: 'resume'; payload: { by: TransferRole } }
+export interface CancelPacket { type: 'cancel'; payload: { by: TransferRole } }
+// Chat message between paired devices; a pasted image travels in `data` with its MIME type
+export interface MessagePacket { type: 'message'; payload: { text?: string; mime?: string; data?: ArrayBuffer } }
+
+export type TransportPacket = HandshakePacket | HeartbeatPacket | EncryptedPacket;
+
+export type SessionPacket =
+  | AuthChallengePacket
+  | AuthPacket
+  | AuthResultPacket
+  | BatchMetaPacket
+  | ApprovePacket
+  | RejectPacket
+  | FileStartPacket
+  | FileChunkPacket
+  | FileEndPacket
+  | FileErrorPacket
+  | FileAckPacket
+  | ChunkRetryPacket
+  | BatchEndPacket
+  | PausePacket
+  | ResumePacket
+  | CancelPacket
+  | MessagePacket;
+
+export type DataPacket = TransportPacket | SessionPacket;
+
+// --- Runtime validation ---
+// Everything arriving from the peer is untrusted; anything that does not match the shapes above is dropped.
+
+type Guard = (value: unknown) => boolean;
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+const isString: Guard = (value) => typeof value === 'string';
+const isIndex: Guard = (value) => Number.isInteger(value) && (value as number) >= 0;
+const isSize: Guard = (value) => Number.isSafeInteger(value) && (value as number) >= 0;
+const isBinary: Guard = (value) => value instanceof ArrayBuffer;
+const optional = (guard: Guard): Guard => (value) => value === undefined || value === null || guard(value);
+
+const shape = (fields: Record<string, Guard>): Guard => (value) =>
+  isObject(value) && Object.entries(fields).every(([key, guard]) => guard(value[key]));
+
+const isCompressionFormat: Guard = (value) => value === 'gzip' || value === 'deflate';
+
+// Only inline JPEG, PNG or WebP images, so a preview cannot make the receiver fetch anything
+const isPreview: Guard = (value) => isObject(value) && (
+  (value.kind === 'image' && typeof value.url === 'string' && value.url.length <= MAX_PREVIEW_URL_LENGTH &&
+    /^data:image\/(jpeg|png|webp);base64,[A-Za-z0-9+/]+=*$/.test(value.url)) ||
+  (value.kind === 'text' && typeof value.text === 'string' && value.text.length <= MAX_PREVIEW_TEXT_LENGTH)
+);
+
+const isFileMetadata = shape({
+  name: isString,
+  size: isSize,
+  type: isString,
+  path: optional(isString),
+  transferId: isString,
+  sha256: (value) => typeof value === 'string' && /^[0-9a-f]{64}$/.test(value),
+  compression: optional(isCompressionFormat),
+  preview: optional(isPreview)
+});
+
+// totalSize is what the receiver's free-space check goes by, so it has to add up
+const isManifest: Guard = (value) =>
+  isObject(value) &&
+  Array.isArray(value.files) &&
+  value.files.every(isFileMetadata) &&
+  isSize(value.totalSize) &&
+  value.totalSize === (value.files as { size: number }[]).reduce((sum, meta) => sum + meta.size, 0);
+
+const isFileAck = shape({ index: isIndex, ok: (value) => typeof value === 'boolean', retry: optional(isSize), reason: optional(isString) });
+
+// Text, an image, or both; never empty
+const isMessage: Guard = (value) =>
+  shape({ text: optional(isString), mime: optional(isString), data: optional(isBinary) })(value) &&
+  isObject(value) && (isString(value.text) || isBinary(value.data));
+
+const isControl = shape({ by: (value) => value === 'sender' || value === 'receiver' });
+
+const isResumeMap: Guard = (value) => isObject(value) && Object.values(value).every(isSize);
+
+const PAYLOAD_GUARDS: Record<DataPacket['type'], Guard> = {
+  'handshake': shape({ version: isIndex, publicKey: isBinary, identityKey: optional(isBinary), signature: optional(isBinary), name: optional(isString) }),
+  'heartbeat': optional(shape({ ping: optional(isSize), pong: optional(isSize) })),
+  'encrypted': shape({ iv: isBinary, data: isBinary }),
+  'auth-challenge': () => true,
+  'auth': shape({ code: isString }),
+  'auth-result': shape({ ok: (value) => typeof value === 'boolean', reason: optional(isString) }),
+  'batch-meta': isManifest,
+  'approve': optional(shape({
+    resume: optional(isResumeMap),
+    stripes: optional(isSize),
+    compression: optional((value) => Array.isArray(value) && value.every(isCompressionFormat))
+  })),
+  'reject': optional(shape({ reason: optional(isString) })),
+  'file-start': shape({ index: isIndex, offset: isSize }),
+  'file-chunk': shape({ index: optional(isIndex), offset: isSize, data: isBinary, hash: isString, encoding: optional(isCompressionFormat) }),
+  'file-end': shape({ index: isIndex }),
+  'file-error': shape({ index: isIndex, reason: isString }),
+  'file-ack': isFileAck,
+  'chunk-retry': isFileAck,
+  'batch-end': shape({ completed: isSize, total: isSize }),
+  'pause': isControl,
+  'resume': isControl,
+  'cancel': isControl,
+  'message': isMessage
+};
+
+export const validatePacket = (value: unknown): DataPacket | null => {
+  // Own keys only: "toString" or "__proto__" must not reach a guard through the prototype
+  if (!isObject(value) || typeof value.type !== 'string' || !Object.hasOwn(PAYLOAD_GUARDS, value.type)) return null;
+  const guard = PAYLOAD_GUARDS[value.type as DataPacket['type']];
+  if (!guard(value.payload)) return null;
+  return value as unknown as DataPacket;
+};
+
+export const isSessionPacket = (packet: DataPacket): packet is SessionPacket =>
+  packet.type !== 'handshake' && packet.type !== 'heartbeat' && packet.type !== 'encrypted';
+
+export const isAuthPacket = (packet: SessionPacket): packet is AuthChallengePacket | AuthPacket | AuthResultPacket =>
+  packet.type === 'auth-challenge' || packet.type === 'auth' || packet.type === 'auth-result';
+
+// Packets written by the side offering files; the rest (apart from chat messages) are the receiving side's replies.
+// Either peer can send, so the type alone decides which local session a packet is for.
+const SENDER_PACKETS = new Set<SessionPacket['type']>(['batch-meta', 'file-start', 'file-chunk', 'file-end', 'file-error', 'batch-end']);
+
+export const isFromSender = (packet: SessionPacket) =>
+  packet.type === 'pause' || packet.type === 'resume' || packet.type === 'cancel'
+    ? packet.payload.by === 'sender'
+    : SENDER_PACKETS.has(packet.type);
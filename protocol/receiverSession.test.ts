@@ -0,0 +1,106 @@
+import { describe, expect, it, vi } from 'vitest';
+import { BatchManifest } from '../types';
+import { ReceiverSession, ReceiverSessionEvents } from './receiverSession';
+import { SessionPacket } from './packets';
+import { PacketChannel } from './secureChannel';
+
+const manifest: BatchManifest = {
+  files: [{ name: 'notes.txt', size: 4, type: 'text/plain', transferId: 'abc-4', sha256: 'a'.repeat(64) }],
+  totalSize: 4
+};
+
+const createChannel = () => {
+  const sent: SessionPacket[] = [];
+  const channel: PacketChannel = {
+    open: true,
+    bufferedAmount: 0,
+    maxChunkSize: 16 * 1024,
+    waitForDrain: async () => {},
+    send: async (packet) => { sent.push(packet); },
+    openStripe: async () => null,
+    close: () => {}
+  };
+  return { channel, sent };
+};
+
+const createEvents = (overrides: Partial<ReceiverSessionEvents> = {}): ReceiverSessionEvents => ({
+  onStatus: vi.fn(),
+  onOffer: vi.fn(),
+  onFileUpdate: vi.fn(),
+  onProgress: vi.fn(),
+  onStats: vi.fn(),
+  onArchive: vi.fn(),
+  onSavedToFolder: vi.fn(),
+  onCancelled: vi.fn(),
+  onFileDone: vi.fn(),
+  ...overrides
+});
+
+describe('ReceiverSession', () => {
+  it('offers a new batch and waits for the user', async () => {
+    const events = createEvents();
+    const session = new ReceiverSession(events);
+    session.attach(createChannel().channel);
+    await session.handlePacket({ type: 'batch-meta', payload: manifest });
+    expect(events.onOffer).toHaveBeenCalledWith(manifest);
+  });
+
+  it('ignores file data for a batch that was not accepted', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const events = createEvents();
+    const session = new ReceiverSession(events);
+    session.attach(createChannel().channel);
+    await session.handlePacket({ type: 'batch-meta', payload: manifest });
+    await session.handlePacket({ type: 'file-start', payload: { index: 0, offset: 0 } });
+    await session.handlePacket({ type: 'file-chunk', payload: { index: 0, offset: 0, data: new ArrayBuffer(4), hash: 'a'.repeat(64) } });
+    await session.handlePacket({ type: 'batch-end', payload: { completed: 1, total: 1 } });
+    expect(events.onFileUpdate).not.toHaveBeenCalled();
+    expect(events.onStatus).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('fails a file that grows past its declared size', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const events = createEvents();
+    const { channel, sent } = createChannel();
+    const session = new ReceiverSession(events);
+    session.attach(channel);
+    await session.handlePacket({ type: 'batch-meta', payload: manifest });
+    await session.accept();
+    await session.handlePacket({ type: 'file-start', payload: { index: 0, offset: 0 } });
+    await session.handlePacket({ type: 'file-chunk', payload: { index: 0, offset: 0, data: new ArrayBuffer(8), hash: 'a'.repeat(64) } });
+    expect(sent).toContainEqual({ type: 'file-ack', payload: { index: 0, ok: false, reason: 'File is larger than announced' } });
+    expect(events.onFileUpdate).toHaveBeenCalledWith(0, expect.objectContaining({ status: 'failed', error: 'Larger than announced' }));
+    warn.mockRestore();
+  });
+
+  it('removes unfinished files when the batch ends', async () => {
+    const writable = { write: vi.fn(), close: vi.fn(), abort: vi.fn(async () => {}) };
+    const folder = {
+      name: 'Downloads',
+      getFileHandle: async () => ({ createWritable: async () => writable }),
+      removeEntry: vi.fn(async () => {})
+    } as unknown as FileSystemDirectoryHandle;
+    const events = createEvents();
+    const session = new ReceiverSession(events);
+    session.attach(createChannel().channel);
+    await session.handlePacket({ type: 'batch-meta', payload: manifest });
+    await session.accept('directory', folder);
+    await session.handlePacket({ type: 'file-start', payload: { index: 0, offset: 0 } });
+    await session.handlePacket({ type: 'batch-end', payload: { completed: 0, total: 1 } });
+    expect(writable.abort).toHaveBeenCalled();
+    expect(folder.removeEntry).toHaveBeenCalledWith('notes.txt');
+    expect(events.onStatus).toHaveBeenCalledWith({ type: 'complete', message: 'Received 0 of 1 files.' });
+  });
+
+  it('declines on the spot when the acceptance rules refuse the batch', async () => {
+    const events = createEvents({ screenOffer: async () => 'notes.txt is a blocked file type.' });
+    const { channel, sent } = createChannel();
+    const session = new ReceiverSession(events);
+    session.attach(channel);
+    await session.handlePacket({ type: 'batch-meta', payload: manifest });
+    expect(events.onOffer).not.toHaveBeenCalled();
+    expect(sent).toContainEqual({ type: 'reject', payload: { reason: 'notes.txt is a blocked file type.' } });
+    expect(events.onStatus).toHaveBeenCalledWith({ type: 'reset', message: 'Declined automatically: notes.txt is a blocked file type.' });
+  });
+});
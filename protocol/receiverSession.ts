@@ -0,0 +1,591 @@
+import { BatchManifest, FileMetadata, FileOutcome, PartialTransfer, ReceivedArchive, ReceivedFile, SaveMode, TransferEvent, TransferOutcome, TransferStats } from '../types';
+import { Sha256, sha256Hex } from '../utils/sha256';
+import { acceptedCompression, decompressChunk } from '../utils/compression';
+import { ZipBuilder } from '../utils/zip';
+import { ThroughputMeter } from '../utils/throughput';
+import { commonRootFolder, sanitizeRelativePath } from '../utils/folder';
+import { FileSink, createDirectorySink, createDownloadSink } from '../utils/fileSink';
+import { ChunkPayload, SessionPacket } from './packets';
+import { PacketChannel } from './secureChannel';
+
+const MAX_CHUNK_RETRIES = 5; // Corrupt chunks re-requested per file before giving up
+// Striping: how many extra channels we accept, and how much out-of-order data we hold per file
+export const MAX_STRIPES = 8;
+const MAX_PENDING_BYTES = 64 * 1024 * 1024;
+const MAX_EARLY_BYTES = 16 * 1024 * 1024;
+// How long file-end may wait for chunks still in flight on other stripes before asking for a resend
+const STRIPE_END_GRACE = 3000;
+const BATCH_DATA_PACKETS: SessionPacket['type'][] = ['file-start', 'file-chunk', 'file-end', 'file-error', 'batch-end'];
+
+export interface ReceiverSessionEvents {
+  onStatus(event: TransferEvent): void;
+  // Runs before onOffer; a reason declines the batch on the spot and is sent back to the sender
+  screenOffer?(manifest: BatchManifest): Promise<string | null>;
+  // A new batch was offered; the user has to accept or reject it
+  onOffer(manifest: BatchManifest): void;
+  onFileUpdate(index: number, patch: Partial<ReceivedFile>): void;
+  onProgress(percent: number): void;
+  onStats(stats: TransferStats): void;
+  onArchive(archive: ReceivedArchive): void;
+  onSavedToFolder(name: string): void;
+  // The sender withdrew the offer
+  onCancelled(): void;
+  onFileDone(outcome: FileOutcome): void;
+}
+
+// Receiving side of the protocol. Outlives individual connections so partial files survive a
+// dropped link and the sender can resume from the offsets reported here.
+export class ReceiverSession {
+  private channel: PacketChannel | null = null;
+  private batch: BatchManifest | null = null;
+  private partials = new Map<string, PartialTransfer>();
+  private currentIndex = -1;
+  private receivedTotal = 0;
+  private saveMode: SaveMode = 'files';
+  private zip: ZipBuilder | null = null;
+  private saveDir: FileSystemDirectoryHandle | null = null;
+  private archiveName = '';
+  private meter = new ThroughputMeter();
+  // Packets from all stripes are handled one at a time, in arrival order
+  private work: Promise<void> = Promise.resolve();
+  // Stripe chunks that overtook their file-start on the control channel
+  private early: ChunkPayload[] = [];
+  private earlyBytes = 0;
+  // Between approve and batch-end; pause, resume and cancel only apply then
+  private active = false;
+  private paused = false;
+  // Current file's attempt, for the history record
+  private attempt: { index: number; startedAt: number; offset: number } | null = null;
+
+  // sinkPrefix keeps temporary files apart when several sessions receive the same file at once
+  constructor(private events: ReceiverSessionEvents, private sinkPrefix = '') {}
+
+  attach(channel: PacketChannel) {
+    this.channel = channel;
+    this.currentIndex = -1;
+    // Anything buffered out of order was lost with the old stripes; the sender resends from `received`
+    this.partials.forEach(partial => this.clearPending(partial));
+    this.clearEarly();
+  }
+
+  detach() {
+    this.channel = null;
+  }
+
+  get hasPartialTransfers() {
+    return this.partials.size > 0;
+  }
+
+  get mode() {
+    return this.saveMode;
+  }
+
+  // mode is omitted when retrying, so the sink chosen on first accept is kept
+  async accept(mode?: SaveMode, directory?: FileSystemDirectoryHandle) {
+    if (!this.channel || !this.batch) return;
+    if (mode === 'directory') {
+      this.saveDir = directory ?? null;
+    }
+    if (mode === 'zip') {
+      const root = commonRootFolder(this.batch.files.map(f => f.path || f.name));
+      this.archiveName = `${root || 'PrivateShare'}.zip`;
+      // The archive can be as large as the whole batch, so it gets a disk-backed sink when needed
+      this.zip = new ZipBuilder(await createDownloadSink('archive', this.archiveName, this.batch.totalSize, 'application/zip', false));
+    }
+    if (mode) {
+      this.saveMode = mode;
+      if (mode !== 'zip') this.zip = null;
+      this.receivedTotal = 0;
+    }
+    this.meter.reset();
+    this.active = true;
+    this.paused = false;
+    await this.channel.send({ type: 'approve', payload: { stripes: MAX_STRIPES, compression: acceptedCompression() } });
+    this.events.onStatus({ type: 'approve', message: 'Connecting to transfer...' });
+  }
+
+  // A reason marks an automatic refusal by the acceptance rules
+  async reject(reason?: string) {
+    await this.channel?.send(reason ? { type: 'reject', payload: { reason } } : { type: 'reject' });
+    this.batch?.files.forEach((_, index) => this.reportFile(index, 'declined', reason));
+    this.batch = null;
+    await this.discardAllPartials();
+    this.events.onStatus({ type: 'reset', message: reason ? `Declined automatically: ${reason}` : 'Request declined.' });
+  }
+
+  pause() {
+    if (this.setPaused(true, 'Paused.')) this.send({ type: 'pause', payload: { by: 'receiver' } });
+  }
+
+  resume() {
+    if (this.setPaused(false)) this.send({ type: 'resume', payload: { by: 'receiver' } });
+  }
+
+  async cancel() {
+    if (!this.active) return;
+    this.send({ type: 'cancel', payload: { by: 'receiver' } });
+    await this.enqueue(() => this.stopTransfer('Transfer cancelled.'));
+  }
+
+  // Drops every partial file; nothing received so far can be resumed afterwards
+  async reset() {
+    this.active = false;
+    this.batch = null;
+    this.saveDir = null;
+    await this.discardAllPartials();
+  }
+
+  handlePacket = (packet: SessionPacket) => this.enqueue(() => this.dispatch(packet));
+
+  private enqueue(task: () => Promise<void>) {
+    const next = this.work.then(task);
+    this.work = next.catch(err => console.error('Receiver failed to handle packet:', err));
+    return next;
+  }
+
+  private async dispatch(packet: SessionPacket) {
+    // File data only flows once the user accepted the batch (or it resumed); anything earlier could
+    // otherwise open files and downloads without asking
+    if (!this.active && BATCH_DATA_PACKETS.includes(packet.type)) {
+      console.warn(`Receiver ignored '${packet.type}' for a batch that was not accepted`);
+      return;
+    }
+    switch (packet.type) {
+      case 'batch-meta': return this.onBatchMeta(packet.payload);
+      case 'file-start': return this.onFileStart(packet.payload.index, packet.payload.offset);
+      case 'file-chunk': return this.onFileChunk(packet.payload);
+      case 'file-end': return this.onFileEnd(packet.payload.index);
+      case 'file-error': return this.onFileError(packet.payload.index, packet.payload.reason);
+      case 'batch-end': return this.onBatchEnd(packet.payload.total);
+      case 'pause':
+      case 'resume':
+        this.setPaused(packet.type === 'pause', 'Paused by the sender.');
+        return;
+      case 'cancel': return this.active ? this.stopTransfer('The sender cancelled the transfer.') : this.onSenderCancelled();
+      default:
+        console.warn(`Receiver ignored '${packet.type}' packet`);
+    }
+  }
+
+  private setPaused(paused: boolean, message = '') {
+    if (!this.active || this.paused === paused) return false;
+    this.paused = paused;
+    this.events.onStatus(paused ? { type: 'pause', message } : { type: 'resume', message: 'Resuming...' });
+    return true;
+  }
+
+  private send(packet: SessionPacket) {
+    this.channel?.send(packet);
+  }
+
+  private updateFile(index: number, patch: Partial<ReceivedFile>) {
+    this.events.onFileUpdate(index, patch);
+  }
+
+  private failFile(index: number, error: string, patch: Partial<ReceivedFile> = {}) {
+    this.updateFile(index, { ...patch, status: 'failed', error });
+    this.reportFile(index, 'failed', error);
+  }
+
+  private reportFile(index: number, outcome: TransferOutcome, error?: string, blob?: Blob) {
+    const meta = this.batch?.files[index];
+    if (!meta) return;
+    const now = Date.now();
+    const attempt = this.attempt?.index === index ? this.attempt : { startedAt: now, offset: 0 };
+    const received = outcome === 'completed' ? meta.size : this.partials.get(meta.transferId)?.received ?? attempt.offset;
+    this.events.onFileDone({
+      name: meta.name,
+      size: meta.size,
+      type: meta.type,
+      sha256: meta.sha256,
+      direction: 'received',
+      outcome,
+      error,
+      startedAt: attempt.startedAt,
+      finishedAt: now,
+      transferred: Math.max(0, received - attempt.offset),
+      blob
+    });
+  }
+
+  // Offsets the receiver already holds for each file of a batch, keyed by transferId
+  private getResumeOffsets(manifest: BatchManifest) {
+    const offsets: Record<string, number> = {};
+    manifest.files.forEach(meta => {
+      const partial = this.partials.get(meta.transferId);
+      if (partial && partial.received > 0) offsets[meta.transferId] = partial.received;
+    });
+    return offsets;
+  }
+
+  // Where an incoming file's bytes go: into the ZIP, the chosen folder, or a download sink
+  private async openSink(meta: FileMetadata): Promise<FileSink | null> {
+    const path = sanitizeRelativePath(meta.path || meta.name) || meta.name;
+    if (this.saveMode === 'zip') {
+      await this.zip?.startFile(path);
+      return null;
+    }
+    if (this.saveMode === 'directory' && this.saveDir) {
+      return createDirectorySink(this.saveDir, path);
+    }
+    return createDownloadSink(`${this.sinkPrefix}${meta.transferId}`, meta.name, meta.size, meta.type);
+  }
+
+  private async discardPartial(transferId: string) {
+    const partial = this.partials.get(transferId);
+    this.partials.delete(transferId);
+    if (!partial || partial.completed) return;
+    if (this.saveMode === 'zip') {
+      await this.zip?.abortFile();
+    } else {
+      await partial.sink?.abort();
+    }
+  }
+
+  private async discardAllPartials() {
+    const transferIds: string[] = [];
+    this.partials.forEach((_, transferId) => transferIds.push(transferId));
+    for (const transferId of transferIds) {
+      await this.discardPartial(transferId);
+    }
+    await this.zip?.abort();
+    this.zip = null;
+  }
+
+  private async onBatchMeta(manifest: BatchManifest) {
+    const previous = this.batch;
+    const isResume = !!previous && manifest.files.length === previous.files.length &&
+      manifest.files.every((meta, i) => meta.transferId === previous.files[i].transferId) &&
+      manifest.files.some(meta => this.partials.has(meta.transferId));
+
+    if (isResume) {
+      // Same batch we already approved; pick up where it stopped without asking again
+      const offsets = this.getResumeOffsets(manifest);
+      this.receivedTotal = Object.values(offsets).reduce((sum, n) => sum + n, 0);
+      this.meter.reset();
+      this.active = true;
+      this.paused = false;
+      this.send({ type: 'approve', payload: { resume: offsets, stripes: MAX_STRIPES, compression: acceptedCompression() } });
+      this.events.onStatus({ type: 'approve', message: 'Resuming transfer...' });
+      return;
+    }
+
+    await this.discardAllPartials();
+    this.batch = manifest;
+    const refusal = await this.events.screenOffer?.(manifest).catch(err => {
+      console.warn('Could not check the offer against the acceptance rules:', err);
+      return null;
+    });
+    if (this.batch !== manifest) return;
+    if (refusal) {
+      await this.reject(refusal);
+      return;
+    }
+    this.events.onOffer(manifest);
+  }
+
+  private async onFileStart(index: number, offset: number) {
+    const meta = this.batch?.files[index];
+    if (!meta) return;
+    this.events.onStatus({
+      // The sender announces the next file even while paused, then waits
+      type: this.paused ? 'note' : 'data',
+      message: `${offset > 0 ? 'Resuming' : 'Receiving'} file ${index + 1} of ${this.batch?.files.length ?? 1}...`
+    });
+
+    this.attempt = { index, startedAt: Date.now(), offset };
+
+    let partial = this.partials.get(meta.transferId);
+    if (partial?.completed) {
+      // Already saved before the interruption; the sender will follow with file-end only
+      this.currentIndex = -1;
+      return;
+    }
+    if (offset > 0 && partial?.received !== offset) {
+      this.currentIndex = -1;
+      this.failFile(index, 'Could not resume: data out of sync');
+      return;
+    }
+    if (offset === 0) {
+      // Each file in the batch gets a fresh sink
+      await partial?.sink?.abort();
+      partial = { received: 0, sink: null, completed: false, hasher: new Sha256(), retries: 0, pending: new Map(), pendingBytes: 0, endPending: false, wireBytes: 0, plainBytes: 0 };
+      this.partials.set(meta.transferId, partial);
+      try {
+        partial.sink = await this.openSink(meta);
+      } catch (err) {
+        console.error(`Could not open a destination for ${meta.name}:`, err);
+        this.partials.delete(meta.transferId);
+        this.currentIndex = -1;
+        this.failFile(index, 'Could not save file');
+        this.send({ type: 'file-ack', payload: { index, ok: false, reason: 'Receiver could not save file' } });
+        return;
+      }
+    }
+    this.currentIndex = index;
+    this.updateFile(index, { status: 'transferring', progress: meta.size ? Math.round((offset / meta.size) * 100) : 0 });
+
+    const early = this.early.filter(chunk => chunk.index === index);
+    this.clearEarly();
+    for (const chunk of early) {
+      await this.onFileChunk(chunk);
+    }
+  }
+
+  private async onFileChunk(chunk: ChunkPayload) {
+    const { offset, hash, encoding } = chunk;
+    let data = chunk.data;
+    const index = chunk.index ?? this.currentIndex;
+    const batch = this.batch;
+    const meta = batch?.files[index];
+    if (!batch || !meta) return;
+    const partial = this.partials.get(meta.transferId);
+    if (!partial) {
+      // Its file-start is still on the way over the control channel
+      if (chunk.index !== undefined && this.earlyBytes + data.byteLength <= MAX_EARLY_BYTES) {
+        this.early.push(chunk);
+        this.earlyBytes += data.byteLength;
+      }
+      return;
+    }
+    if (partial.completed || index !== this.currentIndex) return;
+
+    // Already written (a resend after a retry request, or a duplicate from another stripe)
+    if (offset < partial.received || partial.pending.has(offset)) return;
+
+    // A chunk that does not decompress is handled like one that fails its hash
+    let intact = true;
+    if (encoding) {
+      try {
+        data = await decompressChunk(data, encoding, meta.size - offset);
+      } catch (err) {
+        console.warn(`Chunk at ${offset} of ${meta.name} did not decompress:`, err);
+        intact = false;
+      }
+    }
+
+    // The size in the manifest is what the acceptance rules and free-space check approved
+    if (intact && offset + data.byteLength > meta.size) {
+      console.warn(`Chunk at ${offset} of ${meta.name} goes past its declared size of ${meta.size}`);
+      this.currentIndex = -1;
+      await this.discardPartial(meta.transferId);
+      this.failFile(index, 'Larger than announced');
+      this.send({ type: 'file-ack', payload: { index, ok: false, reason: 'File is larger than announced' } });
+      return;
+    }
+
+    if (!intact || await sha256Hex(data) !== hash) {
+      partial.retries++;
+      if (partial.retries > MAX_CHUNK_RETRIES) {
+        this.currentIndex = -1;
+        await this.discardPartial(meta.transferId);
+        this.failFile(index, 'Integrity check failed');
+        this.send({ type: 'file-ack', payload: { index, ok: false, reason: 'Integrity check failed' } });
+      } else {
+        console.warn(`Chunk at ${offset} of ${meta.name} failed verification, requesting it again`);
+        this.send({ type: 'chunk-retry', payload: { index, ok: false, retry: partial.received } });
+      }
+      return;
+    }
+
+    // Only files the sender was allowed to compress show a ratio
+    if (meta.compression && acceptedCompression().includes(meta.compression)) {
+      partial.wireBytes += chunk.data.byteLength;
+      partial.plainBytes += data.byteLength;
+      this.updateFile(index, { compression: { format: meta.compression, ratio: partial.plainBytes / partial.wireBytes } });
+    }
+
+    if (offset > partial.received) {
+      // Arrived ahead of its predecessors over another stripe; hold it until the gap fills.
+      // Past the limit it is dropped and comes back through a resend.
+      if (partial.pendingBytes + data.byteLength <= MAX_PENDING_BYTES) {
+        partial.pending.set(offset, data);
+        partial.pendingBytes += data.byteLength;
+      }
+      return;
+    }
+
+    await this.appendChunk(partial, data);
+    let next = partial.pending.get(partial.received);
+    while (next) {
+      partial.pending.delete(partial.received);
+      partial.pendingBytes -= next.byteLength;
+      await this.appendChunk(partial, next);
+      next = partial.pending.get(partial.received);
+    }
+    // After a resend with a different chunk size, held chunks can end up behind `received`
+    partial.pending.forEach((held, heldOffset) => {
+      if (heldOffset < partial.received) {
+        partial.pending.delete(heldOffset);
+        partial.pendingBytes -= held.byteLength;
+      }
+    });
+
+    this.updateFile(index, { progress: meta.size ? Math.round((partial.received / meta.size) * 100) : 100 });
+    this.events.onProgress(batch.totalSize ? Math.round((this.receivedTotal / batch.totalSize) * 100) : 100);
+    const stats = this.meter.report(this.receivedTotal, batch.totalSize);
+    if (stats) this.events.onStats(stats);
+
+    if (partial.endPending && partial.received >= meta.size) {
+      partial.endPending = false;
+      await this.finishFile(index);
+    }
+  }
+
+  private async appendChunk(partial: PartialTransfer, data: ArrayBuffer) {
+    if (this.saveMode === 'zip') {
+      await this.zip?.append(data);
+    } else {
+      await partial.sink?.write(data);
+    }
+    partial.hasher.update(new Uint8Array(data));
+    partial.received += data.byteLength;
+    this.receivedTotal += data.byteLength;
+    this.meter.add(data.byteLength);
+  }
+
+  private clearPending(partial: PartialTransfer) {
+    partial.pending.clear();
+    partial.pendingBytes = 0;
+    partial.endPending = false;
+  }
+
+  private clearEarly() {
+    this.early = [];
+    this.earlyBytes = 0;
+  }
+
+  private async onFileEnd(index: number) {
+    const meta = this.batch?.files[index];
+    const partial = meta && this.partials.get(meta.transferId);
+    if (!meta || !partial) {
+      this.send({ type: 'file-ack', payload: { index, ok: false, reason: 'Unexpected file' } });
+      return;
+    }
+    if (partial.completed) {
+      // Finished before an interruption; confirm again so the resumed sender can move on
+      this.send({ type: 'file-ack', payload: { index, ok: true } });
+      return;
+    }
+    if (partial.received < meta.size) {
+      // Chunks may still be in flight on other stripes; finish when they land, or ask for a resend
+      // if nothing moves for a while (a retried chunk is outstanding or a stripe dropped)
+      partial.endPending = true;
+      this.watchStalledEnd(index, meta.transferId, partial.received);
+      return;
+    }
+    await this.finishFile(index);
+  }
+
+  private watchStalledEnd(index: number, transferId: string, received: number) {
+    setTimeout(() => this.enqueue(async () => {
+      const partial = this.partials.get(transferId);
+      if (!partial || !partial.endPending || partial.completed) return;
+      if (partial.received !== received) {
+        this.watchStalledEnd(index, transferId, partial.received);
+        return;
+      }
+      partial.endPending = false;
+      this.clearPending(partial);
+      this.send({ type: 'chunk-retry', payload: { index, ok: false, retry: partial.received } });
+    }), STRIPE_END_GRACE);
+  }
+
+  // All bytes are in: check the whole-file hash and close the destination
+  private async finishFile(index: number) {
+    const meta = this.batch!.files[index];
+    const partial = this.partials.get(meta.transferId)!;
+    this.currentIndex = -1;
+    if (partial.hasher.digest() !== meta.sha256) {
+      await this.discardPartial(meta.transferId);
+      this.failFile(index, 'Checksum mismatch', { verified: false });
+      this.send({ type: 'file-ack', payload: { index, ok: false, reason: 'Checksum mismatch' } });
+      return;
+    }
+
+    try {
+      if (this.saveMode === 'zip') {
+        await this.zip?.endFile();
+        this.updateFile(index, { status: 'completed', progress: 100, verified: true });
+        this.reportFile(index, 'completed');
+      } else {
+        const blob = await partial.sink?.close();
+        this.updateFile(index, {
+          status: 'completed',
+          progress: 100,
+          verified: true,
+          url: blob ? URL.createObjectURL(blob) : undefined,
+          savedToDisk: !blob
+        });
+        this.reportFile(index, 'completed', undefined, blob ?? undefined);
+      }
+    } catch (err) {
+      console.error(`Failed to save ${meta.path || meta.name}:`, err);
+      await this.discardPartial(meta.transferId);
+      this.failFile(index, 'Could not save file');
+      this.send({ type: 'file-ack', payload: { index, ok: false, reason: 'Receiver could not save file' } });
+      return;
+    }
+    partial.sink = null;
+    partial.completed = true;
+    this.send({ type: 'file-ack', payload: { index, ok: true } });
+  }
+
+  // Sender could not read this file; drop what we have of it and wait for the next one
+  private async onFileError(index: number, reason: string) {
+    const meta = this.batch?.files[index];
+    if (meta) await this.discardPartial(meta.transferId);
+    this.currentIndex = -1;
+    this.failFile(index, reason);
+  }
+
+  private async onBatchEnd(total: number) {
+    // Count only files that passed verification here, not what the sender believes it delivered
+    let completed = 0;
+    this.partials.forEach(p => { if (p.completed) completed++; });
+    // Files that never finished still hold an open destination (an OPFS temp file, a half-written file)
+    await this.discardAllPartials();
+    this.active = false;
+
+    if (this.saveMode === 'zip' && this.zip) {
+      this.events.onStatus({ type: 'note', message: 'Finishing archive...' });
+      const blob = await this.zip.finish();
+      this.events.onArchive({ url: blob ? URL.createObjectURL(blob) : undefined, name: this.archiveName });
+      this.zip = null;
+    } else if (this.saveMode === 'directory' && this.saveDir) {
+      this.events.onSavedToFolder(this.saveDir.name);
+      this.saveDir = null;
+    }
+    this.events.onProgress(100);
+    if (this.batch) this.events.onStats(this.meter.report(this.batch.totalSize, this.batch.totalSize, true)!);
+    this.events.onStatus({
+      type: 'complete',
+      message: completed === total ? `${total === 1 ? 'File' : `All ${total} files`} received successfully!` : `Received ${completed} of ${total} files.`
+    });
+  }
+
+  // Files finished so far stay available; everything else of the batch is thrown away
+  private async stopTransfer(message: string) {
+    if (!this.active) return;
+    this.active = false;
+    this.paused = false;
+    if (this.currentIndex >= 0) {
+      this.updateFile(this.currentIndex, { status: 'failed', error: 'Cancelled' });
+      this.reportFile(this.currentIndex, 'cancelled');
+    }
+    this.currentIndex = -1;
+    this.clearEarly();
+    await this.discardAllPartials();
+    this.batch = null;
+    this.saveDir = null;
+    this.events.onStatus({ type: 'settle', message });
+  }
+
+  private async onSenderCancelled() {
+    this.batch = null;
+    await this.discardAllPartials();
+    this.saveDir = null;
+    this.events.onCancelled();
+    this.events.onStatus({ type: 'reset', message: 'Transfer cancelled.' });
+  }
+}
@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PeerDevice } from '../types';
+import { SessionPacket } from './packets';
+import { SecureChannel } from './secureChannel';
+import { Transport } from './transport';
+
+// Two ends of an open in-memory pipe. `tamper` sees every message on its way and may change it.
+const createPipe = (tamper: (data: unknown) => unknown = data => data) => {
+  const handlers: ((data: unknown) => void)[][] = [[], []];
+  const end = (side: 0 | 1): Transport => ({
+    open: true,
+    bufferedAmount: 0,
+    maxMessageSize: 256 * 1024,
+    waitForDrain: async () => {},
+    send: data => queueMicrotask(() => handlers[1 - side].forEach(handler => handler(tamper(data)))),
+    close: () => {},
+    onOpen: () => {},
+    onData: handler => { handlers[side].push(handler); },
+    onClose: () => {}
+  });
+  return [end(0), end(1)] as const;
+};
+
+const connect = (tamper?: (data: unknown) => unknown) => {
+  const [left, right] = createPipe(tamper);
+  const received: SessionPacket[] = [];
+  const verified: { sas: string; device: PeerDevice | null }[] = [];
+  const a = new SecureChannel(left, () => {}, (sas, device) => verified.push({ sas, device }));
+  const b = new SecureChannel(right, packet => { received.push(packet); }, (sas, device) => verified.push({ sas, device }));
+  return { a, b, received, verified };
+};
+
+describe('SecureChannel', () => {
+  beforeEach(() => {
+    // No IndexedDB here, so both ends connect without a device key
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('agrees on a key and the same verification code on both ends', async () => {
+    const { a, b, received, verified } = connect();
+    await vi.waitFor(() => expect(verified).toHaveLength(2));
+    expect(verified[0].sas).toMatch(/^\d{3} \d{3}$/);
+    expect(verified[0].sas).toBe(verified[1].sas);
+    expect(a.isSecure && b.isSecure).toBe(true);
+
+    const data = new Uint8Array([1, 2, 3, 250]).buffer;
+    await a.send({ type: 'file-chunk', payload: { index: 0, offset: 0, data, hash: 'a'.repeat(64) } });
+    await a.send({ type: 'file-end', payload: { index: 0 } });
+    await vi.waitFor(() => expect(received).toHaveLength(2));
+    const chunk = received[0];
+    expect(chunk.type === 'file-chunk' && new Uint8Array(chunk.payload.data)).toEqual(new Uint8Array([1, 2, 3, 250]));
+    expect(received[1]).toEqual({ type: 'file-end', payload: { index: 0 } });
+  });
+
+  it('never sends a session packet in the clear', async () => {
+    const seen: unknown[] = [];
+    const { a, received } = connect(data => { seen.push(data); return data; });
+    await a.send({ type: 'message', payload: { text: 'secret words' } });
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    expect(seen.map(data => (data as { type: string }).type)).toEqual(['handshake', 'handshake', 'encrypted']);
+    expect(JSON.stringify(seen)).not.toContain('secret words');
+  });
+
+  it('shows different codes when a handshake key is swapped on the way', async () => {
+    const pair = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits']) as CryptoKeyPair;
+    const intruderKey = await crypto.subtle.exportKey('raw', pair.publicKey);
+    let swapped = false;
+    const { a, received, verified } = connect(data => {
+      const packet = data as { type: string; payload: Record<string, unknown> };
+      if (swapped || packet.type !== 'handshake') return data;
+      swapped = true;
+      return { ...packet, payload: { ...packet.payload, publicKey: intruderKey } };
+    });
+    await vi.waitFor(() => expect(verified).toHaveLength(2));
+    expect(verified[0].sas).not.toBe(verified[1].sas);
+
+    await a.send({ type: 'file-end', payload: { index: 0 } });
+    await new Promise(r => setTimeout(r, 50));
+    expect(received).toHaveLength(0);
+  });
+
+  it('drops a packet that was changed on the way', async () => {
+    let flip = false;
+    const { a, received, verified } = connect(data => {
+      const packet = data as { type: string; payload: { iv: ArrayBuffer; data: ArrayBuffer } };
+      if (!flip || packet.type !== 'encrypted') return data;
+      const bytes = new Uint8Array(packet.payload.data.slice(0));
+      bytes[bytes.length - 1] ^= 1;
+      return { ...packet, payload: { ...packet.payload, data: bytes.buffer } };
+    });
+    await vi.waitFor(() => expect(verified).toHaveLength(2));
+
+    flip = true;
+    await a.send({ type: 'file-end', payload: { index: 0 } });
+    flip = false;
+    await a.send({ type: 'file-end', payload: { index: 1 } });
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    expect(received[0]).toEqual({ type: 'file-end', payload: { index: 1 } });
+  });
+});
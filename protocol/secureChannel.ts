@@ -0,0 +1,378 @@
+import { PeerDevice } from '../types';
+import { signHandshake, verifyHandshake } from '../utils/identity';
+import { AUTH_TIMEOUT, ChannelAuth } from './auth';
+import { HandshakePacket, HeartbeatPacket, PROTOCOL_VERSION, SessionPacket, isAuthPacket, isSessionPacket, validatePacket } from './packets';
+import { Transport } from './transport';
+
+// Application-layer encryption on top of a Transport.
+// Each side sends its protocol version and an ECDH P-256 public key in a `handshake` packet; both derive an
+// AES-GCM key and a short authentication string (SAS). Every session packet is then sealed, so a
+// signaling server that swaps keys shows up as mismatched codes on the two screens.
+// The ephemeral key is also signed with the device's long-term key, so a known device is recognised
+// without comparing codes; a handshake whose signature does not check out closes the connection.
+// With `auth`, a pairing check follows the handshake and nothing reaches the sessions until it passes.
+
+const HKDF_INFO_KEY = new TextEncoder().encode('privateshare-aes-gcm');
+const HKDF_INFO_SAS = new TextEncoder().encode('privateshare-sas');
+
+interface SealedPayload {
+  iv: ArrayBuffer;
+  data: ArrayBuffer;
+}
+
+// What the sessions need from a connection; SecureChannel is the real one
+export interface PacketChannel {
+  readonly open: boolean;
+  readonly bufferedAmount: number;
+  // Largest chunk payload that fits in one transport message after framing and encryption
+  readonly maxChunkSize: number;
+  waitForDrain(threshold: number): Promise<void>;
+  send(packet: SessionPacket): Promise<void>;
+  // Opens an extra pipe to the same peer for striping file chunks; null when the transport cannot
+  openStripe(): Promise<PacketChannel | null>;
+  close(): void;
+}
+
+export interface SecureChannelOptions {
+  // Stripes reuse the parent's key and skip the handshake
+  parent?: SecureChannel;
+  auth?: ChannelAuth;
+}
+
+// Room for the frame header, GCM tag, IV and transport envelope around a chunk
+const PACKET_OVERHEAD = 1024;
+
+// Whoever owns the channel sends a heartbeat this often. Anything arriving from the peer counts as a sign
+// of life; after MAX_MISSED_HEARTBEATS intervals of silence the connection is treated as dead.
+export const HEARTBEAT_INTERVAL = 2000;
+const MAX_MISSED_HEARTBEATS = 3;
+
+const concatBytes = (...parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.byteLength, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.byteLength;
+  }
+  return out;
+};
+
+const compareBytes = (a: Uint8Array, b: Uint8Array) => {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return a.length - b.length;
+};
+
+// Packets are JSON except for an optional binary `payload.data`, which travels as-is after the header
+const encodeFrame = (packet: SessionPacket) => {
+  const payload = 'payload' in packet ? (packet.payload as Record<string, unknown> | undefined) : undefined;
+  const data = payload?.data instanceof ArrayBuffer ? payload.data : undefined;
+  const header = new TextEncoder().encode(JSON.stringify({
+    type: packet.type,
+    payload: data ? { ...payload, data: undefined } : payload,
+    binary: !!data
+  }));
+  const length = new Uint8Array(4);
+  new DataView(length.buffer).setUint32(0, header.byteLength);
+  return concatBytes(length, header, data ? new Uint8Array(data) : new Uint8Array(0));
+};
+
+const decodeFrame = (frame: ArrayBuffer): unknown => {
+  const headerLength = new DataView(frame).getUint32(0);
+  const header = JSON.parse(new TextDecoder().decode(new Uint8Array(frame, 4, headerLength)));
+  if (header.binary) {
+    return { type: header.type, payload: { ...header.payload, data: frame.slice(4 + headerLength) } };
+  }
+  return { type: header.type, payload: header.payload };
+};
+
+// Six digits grouped for reading aloud, e.g. "482 913"
+const formatSas = (bits: ArrayBuffer) => {
+  const value = new DataView(bits).getUint32(0) % 1_000_000;
+  const digits = value.toString().padStart(6, '0');
+  return `${digits.slice(0, 3)} ${digits.slice(3)}`;
+};
+
+export class SecureChannel implements PacketChannel {
+  private keyPair: Promise<CryptoKeyPair>;
+  private key: CryptoKey | null = null;
+  // Keys agreed; the pairing check can start
+  private keyed: Promise<void>;
+  private resolveKeyed!: () => void;
+  // Pairing check passed; session packets flow
+  private ready: Promise<void>;
+  private resolveReady!: () => void;
+  private authenticated = false;
+  private authTimer: number | null = null;
+  private auth?: ChannelAuth;
+  private sas = '';
+  private device: PeerDevice | null = null;
+  private outbound: Promise<void> = Promise.resolve();
+  private inbound: Promise<void> = Promise.resolve();
+  private handshakeSent = false;
+  private lastSeen = Date.now();
+  private roundTrip: number | null = null;
+
+  constructor(
+    readonly transport: Transport,
+    // May return a promise; the next packet is not handled until it settles
+    private onPacket: (packet: SessionPacket) => void | Promise<void>,
+    // device is null when the peer did not sign its handshake
+    private onVerified: (sas: string, device: PeerDevice | null) => void,
+    { parent, auth }: SecureChannelOptions = {}
+  ) {
+    this.keyPair = crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, false, ['deriveBits']) as Promise<CryptoKeyPair>;
+    this.keyed = new Promise(resolve => { this.resolveKeyed = resolve; });
+    this.ready = new Promise(resolve => { this.resolveReady = resolve; });
+    this.auth = auth;
+
+    transport.onData((data) => this.receive(data));
+    if (parent) {
+      this.handshakeSent = true;
+      parent.ready.then(() => {
+        this.key = parent.key;
+        this.authenticated = true;
+        this.resolveKeyed();
+        this.resolveReady();
+      });
+    } else if (transport.open) {
+      this.sendHandshake();
+    } else {
+      transport.onOpen(() => {
+        this.lastSeen = Date.now();
+        this.sendHandshake();
+      });
+    }
+  }
+
+  get open() {
+    return this.transport.open;
+  }
+
+  get bufferedAmount() {
+    return this.transport.bufferedAmount;
+  }
+
+  get maxChunkSize() {
+    return this.transport.maxMessageSize - PACKET_OVERHEAD;
+  }
+
+  waitForDrain(threshold: number) {
+    return this.transport.waitForDrain(threshold);
+  }
+
+  close() {
+    this.transport.close();
+  }
+
+  // A second pipe to the same peer, sealed with this channel's key. Packets arriving on it go to the
+  // same handler; a stripe opened by anyone without the key fails to decrypt and is ignored.
+  createStripe(transport: Transport) {
+    return new SecureChannel(transport, this.onPacket, () => {}, { parent: this });
+  }
+
+  async openStripe(): Promise<SecureChannel | null> {
+    if (!this.transport.openStripe) return null;
+    return this.createStripe(await this.transport.openStripe());
+  }
+
+  get isSecure() {
+    return this.key !== null;
+  }
+
+  // Sends are queued so sealed packets leave in the order they were issued, even before the handshake finishes
+  send(packet: SessionPacket): Promise<void> {
+    const next = this.outbound.then(async () => {
+      await this.ready;
+      if (!this.transport.open) return;
+      this.transport.send({ type: 'encrypted', payload: await this.seal(packet) });
+    });
+    this.outbound = next.catch(err => console.error('Failed to send encrypted packet:', err));
+    return next;
+  }
+
+  // Heartbeats are not sealed and skip the queue so they keep flowing during large transfers
+  sendHeartbeat() {
+    if (this.transport.open) this.transport.send({ type: 'heartbeat', payload: { ping: Date.now() } });
+  }
+
+  // Milliseconds for the last heartbeat to come back; null until one has
+  get rtt() {
+    return this.roundTrip;
+  }
+
+  get missedHeartbeats() {
+    return Math.floor((Date.now() - this.lastSeen) / HEARTBEAT_INTERVAL);
+  }
+
+  // Open as far as the browser knows, but the peer has gone quiet
+  get isStale() {
+    return this.missedHeartbeats >= MAX_MISSED_HEARTBEATS;
+  }
+
+  private async sendHandshake() {
+    if (this.handshakeSent) return;
+    this.handshakeSent = true;
+    const { publicKey } = await this.keyPair;
+    const raw = await crypto.subtle.exportKey('raw', publicKey);
+    // Without IndexedDB there is no device key; the connection still works, just unsigned
+    const identity = await signHandshake(raw).catch(err => {
+      console.warn('Device identity unavailable:', err);
+      return null;
+    });
+    this.transport.send({ type: 'handshake', payload: { version: PROTOCOL_VERSION, publicKey: raw, ...identity } });
+  }
+
+  private receive(data: unknown) {
+    this.lastSeen = Date.now();
+    const packet = validatePacket(data);
+    if (!packet) {
+      console.warn('Dropped malformed packet', data);
+      return;
+    }
+    if (packet.type === 'heartbeat') {
+      this.handleHeartbeat(packet.payload);
+    } else if (packet.type === 'handshake') {
+      if (packet.payload.version !== PROTOCOL_VERSION) {
+        console.error(`Peer speaks protocol v${packet.payload.version}, expected v${PROTOCOL_VERSION}`);
+        this.transport.close();
+        return;
+      }
+      this.completeHandshake(packet.payload).catch(err => {
+        console.error('Handshake failed:', err);
+        this.transport.close();
+      });
+    } else if (packet.type === 'encrypted') {
+      // Decrypt in arrival order; the transfer logic relies on packets being handled sequentially
+      this.inbound = this.inbound
+        .then(() => this.keyed)
+        .then(() => this.unseal(packet.payload))
+        .then(inner => this.dispatch(inner))
+        .catch(err => console.error('Dropped packet that failed to decrypt:', err));
+    } else {
+      console.warn(`Dropped unencrypted '${packet.type}' packet`);
+    }
+  }
+
+  private handleHeartbeat(payload: HeartbeatPacket['payload']) {
+    if (typeof payload?.ping === 'number' && this.transport.open) {
+      this.transport.send({ type: 'heartbeat', payload: { pong: payload.ping } });
+    }
+    if (typeof payload?.pong === 'number') this.roundTrip = Math.max(0, Date.now() - payload.pong);
+  }
+
+  private async dispatch(inner: unknown) {
+    const packet = validatePacket(inner);
+    if (!packet || !isSessionPacket(packet)) {
+      console.warn('Dropped malformed session packet', inner);
+      return;
+    }
+    if (!this.authenticated) return this.handleAuthPacket(packet);
+    if (!isAuthPacket(packet)) await this.onPacket(packet);
+  }
+
+  private startAuth() {
+    const auth = this.auth;
+    if (!auth) return this.admit();
+    if (auth.role === 'listener') {
+      if (auth.guard.admits(this.device)) {
+        this.sendAuthPacket({ type: 'auth-result', payload: { ok: true } });
+        return this.admit();
+      }
+      this.sendAuthPacket({ type: 'auth-challenge' });
+      this.authTimer = window.setTimeout(() => this.refuse('No pairing code was entered in time.'), AUTH_TIMEOUT);
+    }
+    // A connector waits for the challenge, or for the go-ahead when it is already known
+  }
+
+  private async handleAuthPacket(packet: SessionPacket) {
+    const auth = this.auth;
+    if (auth?.role === 'listener' && packet.type === 'auth') {
+      const refusal = auth.guard.check(auth.peerId, packet.payload.code, this.device);
+      if (refusal) return this.refuse(refusal);
+      this.sendAuthPacket({ type: 'auth-result', payload: { ok: true } });
+      return this.admit();
+    }
+    if (auth?.role === 'connector' && packet.type === 'auth-challenge') {
+      const code = await auth.requestCode();
+      if (code === null) return this.close();
+      return this.sendAuthPacket({ type: 'auth', payload: { code } });
+    }
+    if (auth?.role === 'connector' && packet.type === 'auth-result') {
+      if (packet.payload.ok) return this.admit();
+      // The listener hangs up after saying why
+      return auth.onRejected(packet.payload.reason || 'The other device refused the connection.');
+    }
+    // Anything else before the check passes is not allowed, so it can never raise an approval prompt
+    console.warn(`Closed connection that sent '${packet.type}' before pairing`);
+    this.close();
+  }
+
+  private admit() {
+    if (this.authTimer) clearTimeout(this.authTimer);
+    this.authTimer = null;
+    this.authenticated = true;
+    this.resolveReady();
+    this.onVerified(this.sas, this.device);
+  }
+
+  // Tells the connector why before hanging up, so it can show the reason
+  private refuse(reason: string) {
+    if (this.authTimer) clearTimeout(this.authTimer);
+    this.authTimer = null;
+    this.sendAuthPacket({ type: 'auth-result', payload: { ok: false, reason } })
+      .finally(() => setTimeout(() => this.close(), 500));
+  }
+
+  // Pairing packets go out before `ready`, so they skip the send queue
+  private async sendAuthPacket(packet: SessionPacket) {
+    if (!this.transport.open) return;
+    this.transport.send({ type: 'encrypted', payload: await this.seal(packet) });
+  }
+
+  private async completeHandshake({ publicKey: remoteRaw, identityKey, signature, name }: HandshakePacket['payload']) {
+    if (this.key) return;
+    let device: PeerDevice | null = null;
+    if (identityKey && signature) {
+      device = await verifyHandshake(remoteRaw, identityKey, signature, name ?? '');
+      if (!device) throw new Error('Device signature does not match');
+    }
+
+    const { publicKey, privateKey } = await this.keyPair;
+    const localRaw = new Uint8Array(await crypto.subtle.exportKey('raw', publicKey));
+    const remote = new Uint8Array(remoteRaw);
+    const remoteKey = await crypto.subtle.importKey('raw', remote, { name: 'ECDH', namedCurve: 'P-256' }, false, []);
+    const shared = await crypto.subtle.deriveBits({ name: 'ECDH', public: remoteKey }, privateKey, 256);
+
+    // Both sides must use the same salt, so order the two public keys before hashing them
+    const [first, second] = compareBytes(localRaw, remote) < 0 ? [localRaw, remote] : [remote, localRaw];
+    const salt = await crypto.subtle.digest('SHA-256', concatBytes(first, second));
+    const master = await crypto.subtle.importKey('raw', shared, 'HKDF', false, ['deriveKey', 'deriveBits']);
+
+    this.key = await crypto.subtle.deriveKey(
+      { name: 'HKDF', hash: 'SHA-256', salt, info: HKDF_INFO_KEY },
+      master,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+    const sasBits = await crypto.subtle.deriveBits({ name: 'HKDF', hash: 'SHA-256', salt, info: HKDF_INFO_SAS }, master, 32);
+
+    this.sas = formatSas(sasBits);
+    this.device = device;
+    this.resolveKeyed();
+    this.startAuth();
+  }
+
+  private async seal(packet: SessionPacket): Promise<SealedPayload> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, this.key!, encodeFrame(packet));
+    return { iv: iv.buffer, data };
+  }
+
+  private async unseal(sealed: SealedPayload): Promise<unknown> {
+    const frame = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: sealed.iv }, this.key!, sealed.data);
+    return decodeFrame(frame);
+  }
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it, vi } from 'vitest';
+import { QueuedFile } from '../types';
+import { SenderSession, SenderSessionEvents } from './senderSession';
+import { SessionPacket } from './packets';
+import { PacketChannel } from './secureChannel';
+
+// Acknowledges every file as soon as it ends, like a receiver that saved it
+const createChannel = (session: () => SenderSession) => {
+  const sent: SessionPacket[] = [];
+  const channel: PacketChannel = {
+    open: true,
+    bufferedAmount: 0,
+    maxChunkSize: 16 * 1024,
+    waitForDrain: async () => {},
+    send: async (packet) => {
+      sent.push(packet);
+      if (packet.type === 'file-end') queueMicrotask(() => session().handlePacket({ type: 'file-ack', payload: { index: packet.payload.index, ok: true } }));
+    },
+    openStripe: async () => null,
+    close: () => {}
+  };
+  return { channel, sent };
+};
+
+const createEvents = (): SenderSessionEvents => ({
+  onStatus: vi.fn(),
+  onItemUpdate: vi.fn(),
+  onProgress: vi.fn(),
+  onStats: vi.fn(),
+  onHashProgress: vi.fn(),
+  onBatchOffered: vi.fn(),
+  onFileDone: vi.fn()
+});
+
+const item = (name: string, text: string): QueuedFile => ({
+  id: name,
+  file: new File([text], name, { type: 'application/octet-stream' }),
+  status: 'pending',
+  progress: 0,
+  preview: null
+});
+
+const waitForStatus = (events: SenderSessionEvents, type: string) =>
+  vi.waitFor(() => expect(events.onStatus).toHaveBeenCalledWith(expect.objectContaining({ type })));
+
+describe('SenderSession', () => {
+  it('offers the queue and sends it once approved', async () => {
+    const events = createEvents();
+    const session = new SenderSession(events);
+    const { channel, sent } = createChannel(() => session);
+    session.attach(channel);
+
+    await session.requestSend([item('a.bin', 'hello'), item('b.bin', 'world!')]);
+    const offer = sent.find(packet => packet.type === 'batch-meta');
+    expect(offer?.type === 'batch-meta' && offer.payload.totalSize).toBe(11);
+
+    session.handlePacket({ type: 'approve' });
+    await waitForStatus(events, 'complete');
+    expect(sent.filter(packet => packet.type === 'file-start')).toHaveLength(2);
+    expect(sent).toContainEqual({ type: 'batch-end', payload: { completed: 2, total: 2 } });
+  });
+
+  it('fails the transfer when a file cannot be read', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const events = createEvents();
+    const session = new SenderSession(events);
+    const { channel, sent } = createChannel(() => session);
+    session.attach(channel);
+    const unreadable = item('gone.bin', 'data');
+    vi.spyOn(unreadable.file, 'slice').mockImplementation(() => { throw new Error('NotReadableError'); });
+
+    await session.requestSend([unreadable]);
+    expect(events.onStatus).toHaveBeenCalledWith({ type: 'fail', error: 'unreadable', message: 'Could not read one of the files.' });
+    expect(sent.some(packet => packet.type === 'batch-meta')).toBe(false);
+    error.mockRestore();
+  });
+
+  it('does not send a finished batch again on a late approve', async () => {
+    const events = createEvents();
+    const session = new SenderSession(events);
+    const { channel, sent } = createChannel(() => session);
+    session.attach(channel);
+
+    await session.requestSend([item('a.bin', 'hello')]);
+    session.handlePacket({ type: 'approve' });
+    await waitForStatus(events, 'complete');
+    session.handlePacket({ type: 'approve' });
+    await new Promise(r => setTimeout(r, 300));
+    expect(sent.filter(packet => packet.type === 'file-start')).toHaveLength(1);
+  });
+});
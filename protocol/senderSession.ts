@@ -0,0 +1,441 @@
+import { BatchManifest, CompressionFormat, FileMetadata, FilePreview, FileOutcome, QueuedFile, TransferEvent, TransferOutcome, TransferStats } from '../types';
+import { hashFile, sha256Hex } from '../utils/sha256';
+import { chooseCompression, compressChunk } from '../utils/compression';
+import { MAX_MANIFEST_PREVIEWS, createPreview, previewSize } from '../utils/preview';
+import { ThroughputMeter } from '../utils/throughput';
+import { FlowController } from './flowControl';
+import { STRIPE_MIN_FILE_SIZE, StripePool } from './striping';
+import { FileAck, MAX_REJECT_REASON_LENGTH, SessionPacket } from './packets';
+import { PacketChannel } from './secureChannel';
+
+// Stable ID for a file (FNV-1a over path, size and mtime) so a reloaded sender can resume the same transfer
+export const getTransferId = (file: File, path?: string) => {
+  const key = `${path || file.name}|${file.size}|${file.lastModified}`;
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${(hash >>> 0).toString(16).padStart(8, '0')}-${file.size.toString(36)}`;
+};
+
+// Whole-file checksums go in the manifest, so every file is hashed up front. Items that already
+// carry a checksum are not read again.
+export const hashItems = async (items: QueuedFile[], onProgress: (percent: number) => void) => {
+  const totalSize = items.reduce((sum, item) => sum + item.file.size, 0);
+  const hashes: string[] = [];
+  let hashedBefore = 0;
+  for (const item of items) {
+    hashes.push(item.sha256 ?? await hashFile(item.file, (bytes) => {
+      onProgress(totalSize ? Math.round(((hashedBefore + bytes) / totalSize) * 100) : 100);
+    }));
+    hashedBefore += item.file.size;
+  }
+  return hashes;
+};
+
+// Consecutive chunks that did not shrink before the rest of a file goes uncompressed
+const MAX_INCOMPRESSIBLE_CHUNKS = 4;
+
+// Thumbnails for the manifest, in file order until its share is used up. Items that already have one
+// (or null, for none) are not looked at again; the ones past the share are left undefined without
+// being read, as is a preview that did not fit, so a smaller batch can still make it.
+export const previewItems = async (items: QueuedFile[]) => {
+  const previews: (FilePreview | null | undefined)[] = [];
+  let budget = MAX_MANIFEST_PREVIEWS;
+  for (const item of items) {
+    const preview = budget > 0 && item.preview === undefined ? await createPreview(item.file) : item.preview;
+    if (preview && previewSize(preview) > budget) {
+      budget = 0;
+      previews.push(undefined);
+      continue;
+    }
+    if (preview) budget -= previewSize(preview);
+    previews.push(preview);
+  }
+  return previews;
+};
+
+export interface SenderSessionEvents {
+  onStatus(event: TransferEvent): void;
+  onItemUpdate(id: string, patch: Partial<QueuedFile>): void;
+  onProgress(percent: number): void;
+  onStats(stats: TransferStats): void;
+  // null once hashing is over
+  onHashProgress(percent: number | null): void;
+  // The manifest went out; queue items that did not complete go back to pending
+  onBatchOffered(): void;
+  onFileDone(outcome: FileOutcome): void;
+}
+
+// Sending side of the protocol. Like the receiver it outlives a single connection: after a drop
+// `resumePending` stays set and the same items are offered again once a new channel is attached.
+export class SenderSession {
+  private channel: PacketChannel | null = null;
+  private items: QueuedFile[] = [];
+  private hashes: string[] = [];
+  // Per file, the format proposed in the manifest
+  private formats: (CompressionFormat | undefined)[] = [];
+  private hashing = false;
+  private fileSignal: FileAck | null = null;
+  private fileAckWaiter: { index: number; resolve: (ack: FileAck) => void; reject: (err: Error) => void } | null = null;
+  private meter = new ThroughputMeter();
+  // State of the batch being sent; pause, resume and cancel may come from either side
+  private sending = false;
+  private paused = false;
+  private cancelled: string | null = null;
+  private unpause: (() => void) | null = null;
+  resumePending = false;
+  // Total data channels for large files: 0 = automatic, 1 = striping off (see StripePool)
+  stripeChannels = 1;
+
+  constructor(private events: SenderSessionEvents) {}
+
+  attach(channel: PacketChannel) {
+    this.channel = channel;
+  }
+
+  // Called when the connection closes; a file waiting for its ack fails so the batch can stop
+  detach() {
+    this.channel = null;
+    this.fileAckWaiter?.reject(new Error('Connection lost during transfer'));
+    this.fileAckWaiter = null;
+    this.wake();
+  }
+
+  reset() {
+    this.items = [];
+    this.resumePending = false;
+  }
+
+  handlePacket = (packet: SessionPacket) => {
+    if (packet.type === 'approve') {
+      this.startBatchUpload(packet.payload?.resume, packet.payload?.stripes ?? 0, packet.payload?.compression ?? []);
+    } else if (packet.type === 'file-ack' || packet.type === 'chunk-retry') {
+      const ack = packet.payload;
+      const waiter = this.fileAckWaiter;
+      if (waiter && waiter.index === ack.index) {
+        this.fileAckWaiter = null;
+        waiter.resolve(ack);
+      } else {
+        this.fileSignal = ack;
+      }
+    } else if (packet.type === 'pause' || packet.type === 'resume') {
+      this.setPaused(packet.type === 'pause', 'Paused by the receiver.');
+    } else if (packet.type === 'cancel') {
+      this.stop('The receiver cancelled the transfer.');
+    } else if (packet.type === 'reject') {
+      const now = Date.now();
+      const reason = packet.payload?.reason?.slice(0, MAX_REJECT_REASON_LENGTH);
+      this.items.forEach((item, index) => this.reportFile(item, index, 'declined', now, 0, reason));
+      if (reason) {
+        // An automatic refusal says why; leave it on screen rather than flashing it
+        this.events.onStatus({ type: 'settle', message: `Receiver declined: ${reason}` });
+        return;
+      }
+      this.events.onStatus({ type: 'fail', error: 'rejected', message: 'Receiver rejected.' });
+      setTimeout(() => this.events.onStatus({ type: 'reset', message: '' }), 2000);
+    } else {
+      console.warn(`Sender ignored '${packet.type}' packet`);
+    }
+  };
+
+  pause() {
+    if (this.setPaused(true, 'Paused.')) this.channel?.send({ type: 'pause', payload: { by: 'sender' } });
+  }
+
+  resume() {
+    if (this.setPaused(false)) this.channel?.send({ type: 'resume', payload: { by: 'sender' } });
+  }
+
+  // Stops the running batch, or withdraws an offer the receiver has not answered yet
+  cancel() {
+    if (this.sending) {
+      this.channel?.send({ type: 'cancel', payload: { by: 'sender' } });
+      this.stop('Transfer cancelled.');
+    } else if (this.items.length > 0) {
+      this.channel?.send({ type: 'cancel', payload: { by: 'sender' } });
+      this.reset();
+      this.events.onStatus({ type: 'settle', message: 'Offer withdrawn.' });
+    }
+  }
+
+  private setPaused(paused: boolean, message = '') {
+    if (!this.sending || this.cancelled || this.paused === paused) return false;
+    this.paused = paused;
+    if (!paused) this.wake();
+    this.events.onStatus(paused ? { type: 'pause', message } : { type: 'resume', message: 'Resuming...' });
+    return true;
+  }
+
+  // The sending loop notices on its next chunk (or its pending file-ack fails) and winds down
+  private stop(message: string) {
+    if (!this.sending || this.cancelled) return;
+    this.cancelled = message;
+    this.fileAckWaiter?.reject(new Error(message));
+    this.fileAckWaiter = null;
+    this.wake();
+  }
+
+  private wake() {
+    this.unpause?.();
+    this.unpause = null;
+  }
+
+  async requestSend(items: QueuedFile[]) {
+    const channel = this.channel;
+    if (!channel || items.length === 0 || this.hashing) return;
+
+    let hashes: string[];
+    let previews: (FilePreview | null | undefined)[];
+    this.hashing = true;
+    this.events.onHashProgress(0);
+    this.events.onStatus({ type: 'note', message: 'Computing checksums...' });
+    try {
+      hashes = await hashItems(items, this.events.onHashProgress);
+      previews = await previewItems(items);
+      // Kept on the queue item so a resume does not hash again
+      items.forEach((item, i) => {
+        if (!item.sha256) this.events.onItemUpdate(item.id, { sha256: hashes[i] });
+        if (item.preview === undefined) this.events.onItemUpdate(item.id, { preview: previews[i] });
+      });
+    } catch (err) {
+      console.error('Failed to hash files:', err);
+      this.events.onStatus({ type: 'fail', error: 'unreadable', message: 'Could not read one of the files.' });
+      return;
+    } finally {
+      this.hashing = false;
+      this.events.onHashProgress(null);
+    }
+    if (!channel.open) return;
+
+    const formats = await Promise.all(items.map(item => chooseCompression(item.file)));
+    const files: FileMetadata[] = items.map((item, i) => ({
+      name: item.file.name,
+      size: item.file.size,
+      type: item.file.type,
+      path: item.path,
+      transferId: getTransferId(item.file, item.path),
+      sha256: hashes[i],
+      compression: formats[i],
+      preview: previews[i] ?? undefined
+    }));
+    const manifest: BatchManifest = {
+      files,
+      totalSize: files.reduce((sum, f) => sum + f.size, 0)
+    };
+
+    this.items = items;
+    this.hashes = hashes;
+    this.formats = formats;
+    channel.send({ type: 'batch-meta', payload: manifest });
+
+    this.events.onBatchOffered();
+    this.events.onStatus({ type: 'offer', message: 'Waiting for acceptance...' });
+  }
+
+  private reportFile(item: QueuedFile, index: number, outcome: TransferOutcome, startedAt: number, transferred: number, error?: string) {
+    this.events.onFileDone({
+      name: item.file.name,
+      size: item.file.size,
+      type: item.file.type,
+      sha256: this.hashes[index],
+      direction: 'sent',
+      outcome,
+      error,
+      startedAt,
+      finishedAt: Date.now(),
+      transferred
+    });
+  }
+
+  private waitForFileAck(index: number) {
+    const early = this.fileSignal;
+    if (early && early.index === index) {
+      this.fileSignal = null;
+      return Promise.resolve(early);
+    }
+    return new Promise<FileAck>((resolve, reject) => {
+      this.fileAckWaiter = { index, resolve, reject };
+    });
+  }
+
+  // Sends one file of the batch and waits for the receiver to verify it. Read errors and
+  // failed verification are thrown so the caller can skip to the next file.
+  // With `format`, chunks that get smaller go compressed; the rest go as they are.
+  private async sendFile(channel: PacketChannel, flow: FlowController, stripes: StripePool, item: QueuedFile, index: number, startOffset: number, format: CompressionFormat | undefined, onPosition: (offset: number) => void) {
+    const file = item.file;
+    let offset = startOffset;
+    let wireBytes = 0;
+    let plainBytes = 0;
+    let incompressible = 0;
+    this.fileSignal = null;
+    await stripes.prepare(file.size);
+
+    while (true) {
+      while (offset < file.size) {
+        if (this.paused && !this.cancelled && channel.open) {
+          await new Promise<void>(resolve => { this.unpause = resolve; });
+          continue;
+        }
+        if (this.cancelled) throw new Error(this.cancelled);
+        if (!channel.open) {
+          throw new Error('Connection lost during transfer');
+        }
+
+        // Receiver rejected a chunk (go back to it) or gave up on the file
+        const signal = this.fileSignal;
+        if (signal && signal.index === index) {
+          this.fileSignal = null;
+          if (signal.retry === undefined) throw new Error(signal.reason || 'Receiver rejected the file');
+          offset = signal.retry;
+        }
+
+        // Send on the least busy lane; when every window is full, sleep until one has drained half of it
+        const lanes = stripes.lanes(file.size);
+        const lane = lanes.reduce((best, l) => l.bufferedAmount < best.bufferedAmount ? l : best);
+        if (lane.bufferedAmount >= flow.window) {
+          await Promise.race(lanes.map(l => l.waitForDrain(flow.lowWater)));
+          continue;
+        }
+
+        const buffer = await file.slice(offset, offset + flow.chunkSize).arrayBuffer();
+        let packed: ArrayBuffer | null = null;
+        if (format && incompressible < MAX_INCOMPRESSIBLE_CHUNKS) {
+          const compressed = await compressChunk(buffer, format);
+          packed = compressed.byteLength < buffer.byteLength ? compressed : null;
+          incompressible = packed ? 0 : incompressible + 1;
+        }
+        await lane.send({
+          type: 'file-chunk',
+          payload: { index, offset, data: packed ?? buffer, hash: await sha256Hex(buffer), encoding: packed ? format : undefined }
+        });
+
+        this.meter.add(buffer.byteLength);
+        flow.adapt();
+        if (file.size >= STRIPE_MIN_FILE_SIZE) stripes.tune();
+        offset += buffer.byteLength;
+        wireBytes += (packed ?? buffer).byteLength;
+        plainBytes += buffer.byteLength;
+        onPosition(offset);
+        this.events.onItemUpdate(item.id, {
+          progress: Math.min(100, Math.round((offset / file.size) * 100)),
+          compression: format ? { format, ratio: plainBytes / wireBytes } : undefined
+        });
+      }
+
+      channel.send({ type: 'file-end', payload: { index } });
+      const ack = await this.waitForFileAck(index);
+      if (ack.retry !== undefined) {
+        offset = ack.retry;
+        onPosition(offset);
+        continue;
+      }
+      if (!ack.ok) throw new Error(ack.reason || 'Receiver rejected the file');
+      return;
+    }
+  }
+
+  // Runs on approve, which is also how the receiver resumes a batch after reconnecting.
+  // resume maps transferId to the byte offset the receiver already holds; peerStripes is how many
+  // extra channels the receiver accepts; peerCompression is what it can decompress
+  private async startBatchUpload(resume: Record<string, number> = {}, peerStripes = 0, peerCompression: CompressionFormat[] = []) {
+    const channel = this.channel;
+    const items = this.items;
+    if (!channel || items.length === 0 || this.sending) return;
+    this.resumePending = false;
+    this.sending = true;
+    this.paused = false;
+    this.cancelled = null;
+
+    this.events.onStatus({ type: 'approve', message: 'Starting transfer...' });
+    this.events.onProgress(0);
+
+    // Brief pause to ensure Receiver is ready to receive data
+    await new Promise(r => setTimeout(r, 200));
+
+    const offsets = items.map(item => Math.min(item.file.size, resume[getTransferId(item.file, item.path)] || 0));
+    const totalSize = items.reduce((sum, item) => sum + item.file.size, 0);
+    let sentTotal = offsets.reduce((sum, n) => sum + n, 0);
+    let completed = 0;
+    // Chunk size and window start from defaults for every batch and adapt as data flows
+    const flow = new FlowController(this.meter, channel.maxChunkSize);
+    const stripes = new StripePool(channel, this.meter, this.stripeChannels, peerStripes);
+    this.meter.reset();
+
+    for (let index = 0; index < items.length; index++) {
+      const item = items[index];
+      const offset = offsets[index];
+      if (!channel.open) {
+        this.resumePending = true;
+        this.sending = false;
+        this.events.onStatus({ type: 'fail', error: 'disconnected', message: 'Connection lost. Reconnect to resume.' });
+        stripes.close();
+        return;
+      }
+
+      // Files are announced even while paused; the loop then waits inside sendFile
+      this.events.onStatus({ type: this.paused ? 'note' : 'data', message: `${offset > 0 ? 'Resuming' : 'Sending'} file ${index + 1} of ${items.length}...` });
+      this.events.onItemUpdate(item.id, { status: 'transferring', progress: item.file.size ? Math.round((offset / item.file.size) * 100) : 0 });
+      channel.send({ type: 'file-start', payload: { index, offset } });
+
+      const sentBefore = sentTotal - offset;
+      const startedAt = Date.now();
+      let reached = offset;
+      try {
+        const format = this.formats[index];
+        await this.sendFile(channel, flow, stripes, item, index, offset, format && peerCompression.includes(format) ? format : undefined, (position) => {
+          reached = position;
+          sentTotal = sentBefore + position;
+          this.events.onProgress(totalSize ? Math.min(100, Math.round((sentTotal / totalSize) * 100)) : 100);
+          const stats = this.meter.report(sentTotal, totalSize);
+          if (stats) this.events.onStats(stats);
+        });
+        this.events.onItemUpdate(item.id, { status: 'completed', progress: 100 });
+        this.reportFile(item, index, 'completed', startedAt, item.file.size - offset);
+        completed++;
+      } catch (err) {
+        if (this.cancelled) {
+          // Both sides drop what they have of the batch; sending it again starts from scratch
+          this.events.onItemUpdate(item.id, { status: 'failed', error: 'Cancelled' });
+          this.reportFile(item, index, 'cancelled', startedAt, Math.max(0, reached - offset));
+          this.sending = false;
+          this.items = [];
+          stripes.close();
+          this.events.onStatus({ type: 'settle', message: this.cancelled });
+          return;
+        }
+        if (!channel.open) {
+          // Keep the items so the receiver can report its offsets after reconnecting
+          this.resumePending = true;
+          this.sending = false;
+          this.events.onItemUpdate(item.id, { status: 'failed', error: 'Connection lost' });
+          this.reportFile(item, index, 'failed', startedAt, Math.max(0, reached - offset), 'Connection lost');
+          this.events.onStatus({ type: 'fail', error: 'disconnected', message: 'Connection lost. Reconnect to resume.' });
+          stripes.close();
+          return;
+        }
+        // One unreadable file must not abort the rest of the batch
+        const reason = err instanceof Error ? err.message : 'Could not read file';
+        console.error(`Failed to send ${item.file.name}:`, err);
+        channel.send({ type: 'file-error', payload: { index, reason } });
+        this.events.onItemUpdate(item.id, { status: 'failed', error: reason });
+        this.reportFile(item, index, 'failed', startedAt, Math.max(0, reached - offset), reason);
+        sentTotal = sentBefore + item.file.size;
+      }
+    }
+
+    // Every file has been acknowledged, so nothing is still in flight on the extra channels.
+    // The batch is done with: a late or duplicate approve must not send it again.
+    this.sending = false;
+    this.items = [];
+    stripes.close();
+    channel.send({ type: 'batch-end', payload: { completed, total: items.length } });
+    this.events.onProgress(100);
+    this.events.onStats(this.meter.report(totalSize, totalSize, true)!);
+    this.events.onStatus({
+      type: 'complete',
+      message: completed === items.length ? 'Sent Successfully!' : `Sent ${completed} of ${items.length} files.`
+    });
+  }
+}
@@ -0,0 +1,90 @@
+import { ThroughputMeter } from '../utils/throughput';
+import { PacketChannel } from './secureChannel';
+
+// Striping spreads the chunks of one large file over several data channels to the same peer.
+// The setting is the total channel count: 0 = tune automatically, 1 = off.
+
+// Smaller files go over the control channel alone; opening stripes would cost more than it saves
+export const STRIPE_MIN_FILE_SIZE = 16 * 1024 * 1024;
+export const STRIPE_SETTING_AUTO = 0;
+const AUTO_MAX_CHANNELS = 4;
+const TUNE_INTERVAL = 2000;
+// Automatic mode keeps adding channels while each one buys at least 10% more throughput
+const TUNE_MIN_GAIN = 1.1;
+
+export class StripePool {
+  private stripes: PacketChannel[] = [];
+  private opening = false;
+  private unavailable = false;
+  private tuning: { rate: number; since: number } | null = null;
+  private prepared = false;
+
+  // peerLimit is how many extra channels the receiver accepts (0 when it does not support striping)
+  constructor(private control: PacketChannel, private meter: ThroughputMeter, private setting: number, private peerLimit: number) {}
+
+  // Total channels wanted, including the control channel
+  private get target() {
+    if (this.setting === 1 || this.peerLimit === 0) return 1;
+    return Math.min(this.peerLimit + 1, this.setting === STRIPE_SETTING_AUTO ? AUTO_MAX_CHANNELS : this.setting);
+  }
+
+  lanes(fileSize: number): PacketChannel[] {
+    if (fileSize < STRIPE_MIN_FILE_SIZE) return [this.control];
+    return [this.control, ...this.stripes.filter(stripe => stripe.open)];
+  }
+
+  // Called before each file. A fixed count opens every channel up front; automatic mode starts
+  // measuring on the control channel alone and grows from there in tune().
+  async prepare(fileSize: number) {
+    if (fileSize < STRIPE_MIN_FILE_SIZE || this.target <= 1 || this.prepared) return;
+    this.prepared = true;
+    if (this.setting === STRIPE_SETTING_AUTO) {
+      this.tuning = { rate: 0, since: performance.now() };
+      return;
+    }
+    while (this.stripes.length + 1 < this.target && await this.addStripe());
+  }
+
+  // Called after every chunk of a large file
+  tune() {
+    if (!this.tuning || this.opening) return;
+    const now = performance.now();
+    if (now - this.tuning.since < TUNE_INTERVAL) return;
+
+    const rate = this.meter.current;
+    const improved = rate >= this.tuning.rate * TUNE_MIN_GAIN;
+    if (!improved || this.unavailable || this.stripes.length + 1 >= this.target) {
+      this.tuning = null;
+      return;
+    }
+    this.tuning = { rate, since: now };
+    // Not awaited: the new lane joins as soon as it is open
+    this.addStripe();
+  }
+
+  close() {
+    this.stripes.forEach(stripe => stripe.close());
+    this.stripes = [];
+  }
+
+  private async addStripe() {
+    if (this.unavailable) return false;
+    this.opening = true;
+    try {
+      const stripe = await this.control.openStripe();
+      if (!stripe) {
+        this.unavailable = true;
+        return false;
+      }
+      this.stripes.push(stripe);
+      return true;
+    } catch (err) {
+      // Fall back to whatever is already open
+      console.warn(`Could not open another channel, continuing with ${this.stripes.length + 1}:`, err);
+      this.unavailable = true;
+      return false;
+    } finally {
+      this.opening = false;
+    }
+  }
+}
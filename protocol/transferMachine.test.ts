@@ -0,0 +1,45 @@
+import { describe, expect, it, vi } from 'vitest';
+import { TransferState } from '../types';
+import { IDLE_PROGRESS, applyTransferEvent, transferFlags, transferReducer } from './transferMachine';
+
+describe('applyTransferEvent', () => {
+  it('walks a transfer from offer to completion', () => {
+    let transfer = applyTransferEvent(IDLE_PROGRESS, { type: 'offer', message: 'Waiting for acceptance...' });
+    expect(transfer.state).toBe(TransferState.WAITING_APPROVAL);
+    transfer = applyTransferEvent(transfer, { type: 'approve' });
+    expect(transferFlags(transfer).canRetryStart).toBe(true);
+    transfer = applyTransferEvent(transfer, { type: 'data' });
+    expect(transferFlags(transfer).canRetryStart).toBe(false);
+    transfer = applyTransferEvent(transfer, { type: 'complete', message: 'Done' });
+    expect(transfer).toMatchObject({ state: TransferState.COMPLETED, message: 'Done' });
+  });
+
+  it('ignores illegal events and returns the same object', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(applyTransferEvent(IDLE_PROGRESS, { type: 'complete' })).toBe(IDLE_PROGRESS);
+    expect(applyTransferEvent(IDLE_PROGRESS, { type: 'pause' })).toBe(IDLE_PROGRESS);
+    expect(warn).toHaveBeenCalledTimes(2);
+    warn.mockRestore();
+  });
+
+  it('keeps the error only while failed', () => {
+    const approved = applyTransferEvent(applyTransferEvent(IDLE_PROGRESS, { type: 'offer' }), { type: 'approve' });
+    const failed = applyTransferEvent(approved, { type: 'fail', error: 'disconnected', message: 'Connection lost.' });
+    expect(transferFlags(failed).resumable).toBe(true);
+    const resumed = applyTransferEvent(failed, { type: 'approve' });
+    expect(resumed.error).toBeNull();
+  });
+
+  it('leaves the state alone for notes', () => {
+    const noted = applyTransferEvent(IDLE_PROGRESS, { type: 'note', message: 'Computing checksums...' });
+    expect(noted).toMatchObject({ state: TransferState.IDLE, message: 'Computing checksums...' });
+  });
+});
+
+describe('transferReducer', () => {
+  it('updates progress and stats without a transition', () => {
+    const reduce = transferReducer('Test');
+    const next = reduce(IDLE_PROGRESS, { type: 'progress', progress: 40 });
+    expect(next).toMatchObject({ state: TransferState.IDLE, progress: 40 });
+  });
+});
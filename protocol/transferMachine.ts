@@ -0,0 +1,83 @@
+import { TransferAction, TransferEvent, TransferProgress, TransferState } from '../types';
+
+// Every change of TransferState goes through here. Each named event leads to one state and is only
+// allowed from the states listed for it; anything else is logged and ignored, so a late or duplicate
+// event cannot drag a transfer backwards. The connection status uses the same machine with its own
+// events (dial, verified, lost).
+
+const { IDLE, CONNECTING, CONNECTED, RECONNECTING, WAITING_APPROVAL, TRANSFERRING, PAUSED, COMPLETED, FAILED } = TransferState;
+const ANY = Object.values(TransferState);
+
+// to is null for events that only change the message
+const TRANSITIONS: Record<TransferEvent['type'], { to: TransferState | null; from: TransferState[] }> = {
+  // A broadcast receiver or inbox sender can dial back in at any point of a transfer
+  dial: { to: CONNECTING, from: ANY },
+  verified: { to: CONNECTED, from: [CONNECTING, RECONNECTING, CONNECTED] },
+  lost: { to: RECONNECTING, from: [CONNECTING, CONNECTED, RECONNECTING] },
+  // A sender that reloaded offers a new batch while the receiver still shows the old one as running
+  offer: { to: WAITING_APPROVAL, from: [IDLE, CONNECTED, WAITING_APPROVAL, TRANSFERRING, PAUSED, COMPLETED, FAILED] },
+  // Also a resume after a dropped connection, and the receiver approving again when nothing arrived
+  approve: { to: TRANSFERRING, from: [WAITING_APPROVAL, TRANSFERRING, PAUSED, FAILED] },
+  data: { to: TRANSFERRING, from: [TRANSFERRING] },
+  pause: { to: PAUSED, from: [TRANSFERRING] },
+  resume: { to: TRANSFERRING, from: [PAUSED] },
+  complete: { to: COMPLETED, from: [TRANSFERRING, PAUSED] },
+  fail: { to: FAILED, from: [CONNECTING, CONNECTED, RECONNECTING, WAITING_APPROVAL, TRANSFERRING, PAUSED, FAILED] },
+  // Declined, withdrawn or cancelled: still connected, ready for the next offer
+  settle: { to: CONNECTED, from: [WAITING_APPROVAL, TRANSFERRING, PAUSED] },
+  reset: { to: IDLE, from: ANY },
+  note: { to: null, from: ANY }
+};
+
+export const IDLE_PROGRESS: TransferProgress = { state: IDLE, message: '', progress: 0, stats: null, error: null, awaitingData: false };
+
+// Returns the same object for an illegal event, so callers (and React) can tell nothing changed
+export const applyTransferEvent = <T extends TransferProgress>(current: T, event: TransferEvent, label = 'Transfer'): T => {
+  const { to, from } = TRANSITIONS[event.type];
+  if (!from.includes(current.state)) {
+    console.warn(`${label}: ignored '${event.type}' while ${current.state}`);
+    return current;
+  }
+  const state = to ?? current.state;
+  const running = state === TRANSFERRING || state === PAUSED;
+  const next: T = {
+    ...current,
+    state,
+    message: event.message ?? current.message,
+    error: event.type === 'fail' ? event.error : state === FAILED ? current.error : null,
+    awaitingData: event.type === 'approve' || (running && event.type !== 'data' && event.type !== 'resume' && current.awaitingData)
+  };
+  // A new offer starts from zero
+  if (event.type === 'offer' || event.type === 'reset') {
+    next.progress = 0;
+    next.stats = null;
+  }
+  return next;
+};
+
+// For useReducer; label names the transfer in the warnings
+export const transferReducer = (label: string) => (current: TransferProgress, action: TransferAction): TransferProgress => {
+  switch (action.type) {
+    case 'progress': return { ...current, progress: action.progress };
+    case 'stats': return { ...current, stats: action.stats };
+    default: return applyTransferEvent(current, action, label);
+  }
+};
+
+// What the UI may show or offer for a transfer, derived from its state rather than its message
+export const transferFlags = ({ state, error, awaitingData }: TransferProgress) => {
+  const active = state === TRANSFERRING || state === PAUSED;
+  return {
+    // Data is moving, or paused mid-batch
+    active,
+    // An offer is out or a batch is running
+    busy: active || state === WAITING_APPROVAL,
+    // Nothing is offered that way; the queue can be edited
+    settled: state === IDLE || state === CONNECTED,
+    finished: state === COMPLETED || state === FAILED,
+    // Approved but the sender never started; approving again asks it to
+    canRetryStart: state === TRANSFERRING && awaitingData,
+    // The batch is kept and continues once the devices reconnect
+    resumable: state === FAILED && error === 'disconnected'
+  };
+};
@@ -0,0 +1,170 @@
+import Peer, { DataConnection } from 'peerjs';
+
+// The protocol only needs a reliable, ordered message pipe. PeerJS connections and raw data channels
+// are adapted to this interface so the sessions can also run over other pipes (or an in-memory fake).
+export interface Transport {
+  readonly open: boolean;
+  // Bytes queued locally but not yet sent, used for backpressure
+  readonly bufferedAmount: number;
+  // Largest message the pipe accepts in one piece
+  readonly maxMessageSize: number;
+  // Resolves once bufferedAmount has fallen to `threshold` (or the pipe closed)
+  waitForDrain(threshold: number): Promise<void>;
+  send(data: unknown): void;
+  close(): void;
+  onOpen(handler: () => void): void;
+  onData(handler: (data: unknown) => void): void;
+  onClose(handler: () => void): void;
+  // Extra pipes to the same peer, used for striping; absent where the transport cannot provide them
+  openStripe?(): Promise<Transport>;
+  onStripe?(handler: (stripe: Transport) => void): void;
+}
+
+const STRIPE_OPEN_TIMEOUT = 10000;
+const STRIPE_LABEL = 'privateshare-stripe';
+
+// Event-driven wait using the channel's own low-water mark instead of polling
+const waitForBufferedAmountLow = (channel: RTCDataChannel | undefined, threshold: number) => new Promise<void>(resolve => {
+  if (!channel || channel.readyState !== 'open' || channel.bufferedAmount <= threshold) return resolve();
+  channel.bufferedAmountLowThreshold = threshold;
+  const done = () => {
+    channel.removeEventListener('bufferedamountlow', done);
+    channel.removeEventListener('close', done);
+    resolve();
+  };
+  channel.addEventListener('bufferedamountlow', done);
+  channel.addEventListener('close', done);
+});
+
+// With `peer`, stripes are opened as additional PeerJS connections tagged in their metadata;
+// the receiving app recognises them in its 'connection' handler.
+export const fromDataConnection = (conn: DataConnection, peer?: Peer): Transport => ({
+  get open() {
+    return conn.open;
+  },
+  get bufferedAmount() {
+    return conn.dataChannel?.bufferedAmount ?? 0;
+  },
+  // PeerJS splits large messages itself
+  maxMessageSize: Number.POSITIVE_INFINITY,
+  waitForDrain: (threshold) => waitForBufferedAmountLow(conn.dataChannel, threshold),
+  send: (data) => conn.send(data),
+  close: () => conn.close(),
+  onOpen: (handler) => conn.on('open', handler),
+  onData: (handler) => conn.on('data', handler),
+  onClose: (handler) => conn.on('close', handler),
+  openStripe: peer && (() => new Promise<Transport>((resolve, reject) => {
+    const stripe = peer.connect(conn.peer, { reliable: true, serialization: 'binary', metadata: { stripe: true } });
+    const timer = setTimeout(() => {
+      stripe.close();
+      reject(new Error('Timed out opening stripe'));
+    }, STRIPE_OPEN_TIMEOUT);
+    stripe.on('open', () => {
+      clearTimeout(timer);
+      resolve(fromDataConnection(stripe));
+    });
+    stripe.on('error', (err) => {
+      clearTimeout(timer);
+      reject(err);
+    });
+  }))
+});
+
+export const isStripeConnection = (conn: DataConnection) => !!conn.metadata?.stripe;
+
+// A raw RTCDataChannel has no serializer of its own. Transport packets are plain objects whose
+// binary fields sit directly in `payload`, so those travel after a JSON header.
+const encodeMessage = (message: unknown): ArrayBuffer => {
+  const { type, payload } = message as { type: string; payload?: Record<string, unknown> };
+  const fields: Record<string, unknown> = {};
+  const binary: [string, number][] = [];
+  const parts: Uint8Array[] = [];
+  Object.entries(payload ?? {}).forEach(([key, value]) => {
+    if (value instanceof ArrayBuffer) {
+      binary.push([key, value.byteLength]);
+      parts.push(new Uint8Array(value));
+    } else {
+      fields[key] = value;
+    }
+  });
+  const header = new TextEncoder().encode(JSON.stringify({ type, payload: payload ? fields : undefined, binary }));
+  const out = new Uint8Array(4 + header.byteLength + parts.reduce((sum, p) => sum + p.byteLength, 0));
+  new DataView(out.buffer).setUint32(0, header.byteLength);
+  out.set(header, 4);
+  let offset = 4 + header.byteLength;
+  parts.forEach(part => {
+    out.set(part, offset);
+    offset += part.byteLength;
+  });
+  return out.buffer;
+};
+
+const decodeMessage = (frame: ArrayBuffer): unknown => {
+  const headerLength = new DataView(frame).getUint32(0);
+  const header = JSON.parse(new TextDecoder().decode(new Uint8Array(frame, 4, headerLength)));
+  let offset = 4 + headerLength;
+  for (const [key, length] of header.binary as [string, number][]) {
+    header.payload[key] = frame.slice(offset, offset + length);
+    offset += length;
+  }
+  return { type: header.type, payload: header.payload };
+};
+
+// Used by the serverless pairing mode. Stripes are extra channels on the same peer connection;
+// closing the main transport also tears down the peer connection, closing a stripe does not.
+export const fromDataChannel = (pc: RTCPeerConnection, channel: RTCDataChannel, isStripe = false): Transport => {
+  channel.binaryType = 'arraybuffer';
+  return {
+    get open() {
+      return channel.readyState === 'open';
+    },
+    get bufferedAmount() {
+      return channel.bufferedAmount;
+    },
+    get maxMessageSize() {
+      // 64KB is supported everywhere; SCTP usually negotiates more
+      return pc.sctp?.maxMessageSize || 64 * 1024;
+    },
+    waitForDrain: (threshold) => waitForBufferedAmountLow(channel, threshold),
+    send: (data) => channel.send(encodeMessage(data)),
+    close: () => {
+      channel.close();
+      if (!isStripe) pc.close();
+    },
+    onOpen: (handler) => channel.addEventListener('open', handler),
+    onData: (handler) => channel.addEventListener('message', (e) => {
+      try {
+        handler(decodeMessage(e.data));
+      } catch (err) {
+        console.warn('Dropped undecodable message', err);
+      }
+    }),
+    onClose: (handler) => {
+      let closed = false;
+      const fire = () => {
+        if (closed) return;
+        closed = true;
+        handler();
+      };
+      channel.addEventListener('close', fire);
+      // A dead ICE path does not always close the channel promptly
+      pc.addEventListener('connectionstatechange', () => {
+        if (pc.connectionState === 'failed' || pc.connectionState === 'closed') fire();
+      });
+    },
+    openStripe: () => new Promise<Transport>((resolve, reject) => {
+      const stripe = pc.createDataChannel(STRIPE_LABEL, { ordered: true });
+      const timer = setTimeout(() => {
+        stripe.close();
+        reject(new Error('Timed out opening stripe'));
+      }, STRIPE_OPEN_TIMEOUT);
+      stripe.addEventListener('open', () => {
+        clearTimeout(timer);
+        resolve(fromDataChannel(pc, stripe, true));
+      });
+    }),
+    onStripe: (handler) => pc.addEventListener('datachannel', (e) => {
+      if (e.channel.label === STRIPE_LABEL) handler(fromDataChannel(pc, e.channel, true));
+    })
+  };
+};
@@ -0,0 +1,53 @@
+// Streams received files straight into the browser's download manager.
+// The page posts a MessagePort per download, then navigates a hidden iframe to
+// /__privateshare_download__/<id>; this worker answers that request with a stream
+// fed by the port, so the file never has to be held in page memory.
+
+const DOWNLOAD_PREFIX = '/__privateshare_download__/';
+const pending = new Map();
+
+self.addEventListener('install', () => self.skipWaiting());
+self.addEventListener('activate', (event) => event.waitUntil(self.clients.claim()));
+
+self.addEventListener('message', (event) => {
+  const { id, name, size } = event.data || {};
+  const port = event.ports[0];
+  if (!id || !port) return;
+
+  const stream = new ReadableStream({
+    start(controller) {
+      port.onmessage = ({ data }) => {
+        if (data === 'end') {
+          controller.close();
+        } else if (data === 'abort') {
+          controller.error(new Error('Transfer aborted'));
+        } else {
+          controller.enqueue(new Uint8Array(data));
+        }
+      };
+    },
+    cancel() {
+      port.postMessage('cancel');
+    }
+  });
+
+  pending.set(id, { stream, name, size });
+  port.postMessage('ready');
+});
+
+self.addEventListener('fetch', (event) => {
+  const url = new URL(event.request.url);
+  if (!url.pathname.startsWith(DOWNLOAD_PREFIX)) return;
+
+  const id = url.pathname.slice(DOWNLOAD_PREFIX.length);
+  const entry = pending.get(id);
+  if (!entry) return;
+  pending.delete(id);
+
+  const headers = {
+    'Content-Type': 'application/octet-stream',
+    'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(entry.name)}`
+  };
+  if (entry.size) headers['Content-Length'] = String(entry.size);
+  event.respondWith(new Response(entry.stream, { headers }));
+});
@@ -1,25 +1,230 @@
+import type { Sha256 } from './utils/sha256';
+import type { FileSink } from './utils/fileSink';
+
 export enum TransferState {
   IDLE = 'IDLE',
   CONNECTING = 'CONNECTING',
   CONNECTED = 'CONNECTED',
+  // Connection dropped; redialling (or waiting for the peer to) before giving up
+  RECONNECTING = 'RECONNECTING',
   WAITING_APPROVAL = 'WAITING_APPROVAL',
   TRANSFERRING = 'TRANSFERRING',
+  PAUSED = 'PAUSED',
   COMPLETED = 'COMPLETED',
   FAILED = 'FAILED'
 }
 
+export type FileTransferStatus = 'pending' | 'transferring' | 'completed' | 'failed';
+
+// CompressionStream formats a file may travel in
+export type CompressionFormat = 'gzip' | 'deflate';
+
+// How much smaller a file travelled: original bytes per byte on the wire, e.g. 3.2 for a log file
+export interface CompressionStats {
+  format: CompressionFormat;
+  ratio: number;
+}
+
+// A small look at a file, made by the sender and carried in the manifest: a JPEG data URL (a
+// downscaled image or a video frame) or the first lines of a text file
+export type FilePreview =
+  | { kind: 'image'; url: string }
+  | { kind: 'text'; text: string };
+
 export interface FileMetadata {
   name: string;
   size: number;
   type: string;
+  // Relative path inside a shared folder, e.g. "project/src/index.ts"
+  path?: string;
+  // Derived from the file itself, so the same file gets the same ID after a sender reload
+  transferId: string;
+  // Hex SHA-256 of the whole file, checked by the receiver once the last chunk arrives
+  sha256: string;
+  // Set when the sender would compress this file; it only does if the receiver accepts the format
+  compression?: CompressionFormat;
+  preview?: FilePreview;
 }
 
-export interface DataPacket {
-  type: 'handshake' | 'approve' | 'reject' | 'file-meta' | 'file-chunk' | 'file-end' | 'file-start' | 'heartbeat';
-  payload?: any;
+// Sent in place of a single file-meta so the receiver can approve the whole queue at once
+export interface BatchManifest {
+  files: FileMetadata[];
+  totalSize: number;
+}
+
+// Receiver-side progress for one file, kept across reconnects so the sender can continue from `received`
+export interface PartialTransfer {
+  received: number;
+  // Open destination for the file; null in ZIP mode, where the archive holds the bytes
+  sink: FileSink | null;
+  completed: boolean;
+  // Running whole-file hash over the bytes accepted so far
+  hasher: Sha256;
+  retries: number;
+  // Verified chunks that arrived ahead of `received` over another stripe, keyed by offset
+  pending: Map<number, ArrayBuffer>;
+  pendingBytes: number;
+  // file-end arrived while chunks were still in flight on other stripes
+  endPending: boolean;
+  // Bytes of compressed chunks as they arrived and after decompression, for the ratio
+  wireBytes: number;
+  plainBytes: number;
 }
 
 export interface QueuedFile {
+  id: string;
   file: File;
+  path?: string;
   previewUrl?: string;
-}
\ No newline at end of file
+  status: FileTransferStatus;
+  progress: number;
+  error?: string;
+  // Computed once before the manifest is sent and reused on resume
+  sha256?: string;
+  // Made once for the manifest like sha256; null when the file has none
+  preview?: FilePreview | null;
+  compression?: CompressionStats;
+}
+
+// How the receiver stores an incoming batch: loose downloads, one ZIP, or a chosen folder on disk
+export type SaveMode = 'files' | 'zip' | 'directory';
+
+export interface ReceivedFile {
+  meta: FileMetadata;
+  status: FileTransferStatus;
+  progress: number;
+  url?: string;
+  error?: string;
+  // Set once the received bytes hash to the sender's SHA-256
+  verified?: boolean;
+  // True when the file streamed straight to disk and there is nothing left to download
+  savedToDisk?: boolean;
+  compression?: CompressionStats;
+}
+
+// A finished ZIP; url is missing when the archive streamed straight to disk
+export interface ReceivedArchive {
+  url?: string;
+  name: string;
+}
+
+// Why a transfer or connection is FAILED
+export type TransferError =
+  | 'refused'       // the pairing code was not accepted
+  | 'unreachable'   // the other device could not be reached
+  | 'disconnected'  // the connection dropped
+  | 'rejected'      // the receiver turned the offer down
+  | 'unreadable';   // a file could not be read for hashing
+
+// Named events of the transfer state machine (protocol/transferMachine.ts), reported by the protocol
+// sessions and the connection code. A message replaces the status line; 'note' changes nothing else.
+export type TransferEvent =
+  | { type: 'dial' | 'verified' | 'lost' | 'offer' | 'approve' | 'data' | 'pause' | 'resume' | 'complete' | 'settle' | 'reset' | 'note'; message?: string }
+  | { type: 'fail'; error: TransferError; message: string };
+
+// Events plus the numbers that change without a transition
+export type TransferAction =
+  | TransferEvent
+  | { type: 'progress'; progress: number }
+  | { type: 'stats'; stats: TransferStats | null };
+
+// Live numbers behind the progress bar; speeds in bytes per second, eta in seconds (null until measurable)
+export interface TransferStats {
+  transferred: number;
+  total: number;
+  currentSpeed: number;
+  averageSpeed: number;
+  eta: number | null;
+}
+
+// One direction of a paired connection. Outgoing and incoming transfers each keep their own,
+// so both can run at once; state is IDLE while nothing is being offered that way.
+export interface TransferProgress {
+  state: TransferState;
+  message: string;
+  progress: number;
+  stats: TransferStats | null;
+  // Set while FAILED
+  error: TransferError | null;
+  // Approved, but no file has started yet
+  awaitingData: boolean;
+}
+
+// The other end's long-term identity, proven by a signature in the handshake
+export interface PeerDevice {
+  // SHA-256 of its identity public key, hex
+  fingerprint: string;
+  name: string;
+}
+
+// A device whose offers are accepted without asking
+export interface TrustedDevice extends PeerDevice {
+  // PeerJS ID it last connected with; informational only, trust follows the key
+  peerId: string;
+  addedAt: number;
+}
+
+// One receiver of a broadcast. Declining is kept apart from failing so the list can tell them apart.
+export interface BroadcastMember extends TransferProgress {
+  peerId: string;
+  // Verification code of this receiver's encrypted channel
+  sasCode: string | null;
+  // null when the receiver did not sign its handshake
+  device: PeerDevice | null;
+  declined: boolean;
+}
+
+// One sender connected to the inbox: its pending offer and every file it has sent so far
+export interface InboxSender extends TransferProgress {
+  peerId: string;
+  sasCode: string | null;
+  device: PeerDevice | null;
+  connected: boolean;
+  // Waiting for accept or reject
+  offer: BatchManifest | null;
+  // Files of all accepted batches, oldest first
+  files: ReceivedFile[];
+}
+
+// One line of the session timeline: a chat message (text and/or pasted image) or a file transfer milestone
+export interface TimelineEntry {
+  id: string;
+  at: number;
+  direction: 'in' | 'out';
+  text?: string;
+  imageUrl?: string;
+  // Set for transfer milestones such as "Sent Successfully!"; rendered as a note instead of a bubble
+  event?: string;
+}
+
+export type TransferDirection = 'sent' | 'received';
+export type TransferOutcome = 'completed' | 'failed' | 'declined' | 'cancelled';
+
+// Reported by a session once a file is done either way; the app adds the peer and keeps it as history
+export interface FileOutcome {
+  name: string;
+  size: number;
+  type: string;
+  sha256?: string;
+  direction: TransferDirection;
+  outcome: TransferOutcome;
+  error?: string;
+  startedAt: number;
+  finishedAt: number;
+  // Bytes moved in this attempt; less than size when the file resumed
+  transferred: number;
+  // The received file, unless it streamed straight to disk
+  blob?: Blob;
+}
+
+export interface HistoryEntry extends Omit<FileOutcome, 'blob'> {
+  id: string;
+  // PeerJS ID of the other device, or "manual" for serverless pairing
+  peer: string;
+  // Milliseconds
+  duration: number;
+  // Bytes per second over this attempt
+  averageSpeed: number;
+  // A copy of the received file is stored for re-download
+  hasBlob: boolean;
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { BatchManifest, FileMetadata } from '../types';
+import { AcceptancePolicy, DEFAULT_ACCEPTANCE_POLICY, checkOffer, parseTypeList } from './acceptance';
+
+const policy = (overrides: Partial<AcceptancePolicy> = {}): AcceptancePolicy => ({
+  ...DEFAULT_ACCEPTANCE_POLICY,
+  checkFreeSpace: false,
+  ...overrides
+});
+
+const offer = (...files: Partial<FileMetadata>[]): BatchManifest => {
+  const metas = files.map((file, i) => ({ name: `file${i}.txt`, size: 10, type: 'text/plain', transferId: `id-${i}`, sha256: 'a'.repeat(64), ...file }));
+  return { files: metas, totalSize: metas.reduce((sum, meta) => sum + meta.size, 0) };
+};
+
+describe('parseTypeList', () => {
+  it('normalizes extensions and keeps MIME types', () => {
+    expect(parseTypeList('exe, .APK  image/*;exe')).toEqual(['.exe', '.apk', 'image/*']);
+  });
+});
+
+describe('checkOffer', () => {
+  it('declines blocked extensions whatever MIME type is claimed', async () => {
+    const reason = await checkOffer(offer({ name: 'Setup.EXE', type: 'text/plain' }), policy({ blockedTypes: ['.exe'] }), false);
+    expect(reason).toBe('Setup.EXE is a blocked file type.');
+  });
+
+  it('only accepts the allowed types when a list is set', async () => {
+    const rules = policy({ allowedTypes: ['image/*', '.pdf'] });
+    expect(await checkOffer(offer({ name: 'a.png', type: 'image/png' }, { name: 'b.pdf', type: '' }), rules, false)).toBeNull();
+    expect(await checkOffer(offer({ name: 'c.zip', type: 'application/zip' }), rules, false)).toBe('c.zip is not an accepted file type.');
+  });
+
+  it('checks the name a file is saved under in a folder or archive', async () => {
+    const reason = await checkOffer(offer({ name: 'report.pdf', path: 'docs/../report.pdf.exe' }), policy({ blockedTypes: ['.exe'] }), false);
+    expect(reason).toBe('report.pdf.exe is a blocked file type.');
+  });
+
+  it('sees through trailing dots, spaces and lookalike characters', async () => {
+    const rules = policy({ blockedTypes: ['.exe'] });
+    for (const name of ['setup.exe.', 'setup.exe ', 'setup.exe. . ', 'setup.\uFF45\uFF58\uFF45', 'setup.ex\u200Be']) {
+      expect(await checkOffer(offer({ name }), rules, false)).toBe(`${name} is a blocked file type.`);
+    }
+    expect(await checkOffer(offer({ name: 'setup.exe.txt' }), rules, false)).toBeNull();
+  });
+
+  it('lets trusted devices skip the type rules but not the size limit', async () => {
+    const rules = policy({ blockedTypes: ['.exe'], maxFileSizeMb: 1 });
+    expect(await checkOffer(offer({ name: 'tool.exe' }), rules, true)).toBeNull();
+    expect(await checkOffer(offer({ name: 'tool.exe' }), { ...rules, typeRulesForTrusted: true }, true)).toBe('tool.exe is a blocked file type.');
+    expect(await checkOffer(offer({ name: 'big.bin', size: 2 * 1024 * 1024 }), rules, true)).toMatch(/^big\.bin is over the/);
+  });
+});
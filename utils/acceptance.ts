@@ -0,0 +1,119 @@
+import { BatchManifest, FileMetadata } from '../types';
+import { sanitizeRelativePath } from './folder';
+import { formatBytes } from './format';
+
+// Rules the receiver applies to every offer before asking. A batch that breaks one is declined on the
+// spot and the sender is told why. Type rules are either extensions (".apk") or MIME types
+// ("image/*", "application/pdf"); the MIME type is whatever the sender claims, so extension rules are
+// the ones to rely on for blocking.
+
+export interface AcceptancePolicy {
+  // 0 means no limit
+  maxFileSizeMb: number;
+  // Empty accepts any type that is not blocked
+  allowedTypes: string[];
+  blockedTypes: string[];
+  // Trusted devices skip the type rules unless this is set; size and space limits always apply
+  typeRulesForTrusted: boolean;
+  checkFreeSpace: boolean;
+}
+
+export const DEFAULT_ACCEPTANCE_POLICY: AcceptancePolicy = {
+  maxFileSizeMb: 0,
+  allowedTypes: [],
+  blockedTypes: [],
+  typeRulesForTrusted: false,
+  checkFreeSpace: true
+};
+
+const POLICY_KEY = 'privateshare:acceptance-policy';
+
+const isTypeList = (value: unknown): value is string[] => Array.isArray(value) && value.every(rule => typeof rule === 'string');
+
+export const loadAcceptancePolicy = (): AcceptancePolicy => {
+  try {
+    const raw = localStorage.getItem(POLICY_KEY);
+    if (!raw) return DEFAULT_ACCEPTANCE_POLICY;
+    const stored = JSON.parse(raw) as Partial<AcceptancePolicy>;
+    return {
+      maxFileSizeMb: typeof stored.maxFileSizeMb === 'number' && stored.maxFileSizeMb >= 0 ? stored.maxFileSizeMb : DEFAULT_ACCEPTANCE_POLICY.maxFileSizeMb,
+      allowedTypes: isTypeList(stored.allowedTypes) ? stored.allowedTypes : [],
+      blockedTypes: isTypeList(stored.blockedTypes) ? stored.blockedTypes : [],
+      typeRulesForTrusted: !!stored.typeRulesForTrusted,
+      checkFreeSpace: stored.checkFreeSpace !== false
+    };
+  } catch {
+    return DEFAULT_ACCEPTANCE_POLICY;
+  }
+};
+
+export const saveAcceptancePolicy = (policy: AcceptancePolicy) => {
+  localStorage.setItem(POLICY_KEY, JSON.stringify(policy));
+};
+
+// "exe, .APK  image/*" -> [".exe", ".apk", "image/*"]
+export const parseTypeList = (text: string) => {
+  const rules = text
+    .split(/[\s,;]+/)
+    .map(rule => rule.trim().toLowerCase())
+    .filter(Boolean)
+    .map(rule => (rule.includes('/') || rule.startsWith('.') ? rule : `.${rule}`));
+  return Array.from(new Set(rules));
+};
+
+export const formatTypeList = (rules: string[]) => rules.join(', ');
+
+// ZIP and folder saves use the last part of the path rather than the name, so both are checked
+const savedNames = (meta: FileMetadata) => {
+  const base = sanitizeRelativePath(meta.path || meta.name).split('/').pop();
+  return base && base !== meta.name ? [meta.name, base] : [meta.name];
+};
+
+// The name as the file system will store it: Windows drops trailing dots and spaces ("setup.exe. "
+// is saved as setup.exe), and lookalike or invisible characters must not hide the real extension
+const storedName = (name: string) =>
+  name.normalize('NFKC').replace(/\p{Cf}/gu, '').replace(/[\s.]+$/u, '').toLowerCase();
+
+const matchesRule = (meta: FileMetadata, name: string, rule: string) => {
+  if (rule.includes('/')) {
+    const type = meta.type.toLowerCase();
+    return rule.endsWith('/*') ? type.startsWith(rule.slice(0, -1)) : type === rule;
+  }
+  return storedName(name).endsWith(rule);
+};
+
+// Space this origin may still use. Browsers report a share of the disk rather than the disk itself,
+// so this is an estimate; null when the browser does not say.
+const availableSpace = async () => {
+  if (!navigator.storage?.estimate) return null;
+  const { quota, usage } = await navigator.storage.estimate();
+  return quota === undefined ? null : Math.max(0, quota - (usage ?? 0));
+};
+
+// Why the batch should be declined, or null to ask the user as usual
+export const checkOffer = async (manifest: BatchManifest, policy: AcceptancePolicy, trusted: boolean): Promise<string | null> => {
+  if (!trusted || policy.typeRulesForTrusted) {
+    for (const meta of manifest.files) {
+      for (const name of savedNames(meta)) {
+        if (policy.blockedTypes.some(rule => matchesRule(meta, name, rule))) return `${name} is a blocked file type.`;
+        if (policy.allowedTypes.length && !policy.allowedTypes.some(rule => matchesRule(meta, name, rule))) {
+          return `${name} is not an accepted file type.`;
+        }
+      }
+    }
+  }
+
+  if (policy.maxFileSizeMb > 0) {
+    const limit = policy.maxFileSizeMb * 1024 * 1024;
+    const tooLarge = manifest.files.find(meta => meta.size > limit);
+    if (tooLarge) return `${tooLarge.name} is over the ${formatBytes(limit, 0)} size limit.`;
+  }
+
+  if (policy.checkFreeSpace) {
+    const available = await availableSpace().catch(() => null);
+    if (available !== null && manifest.totalSize > available) {
+      return `Not enough free space (${formatBytes(manifest.totalSize)} needed, ${formatBytes(available)} available).`;
+    }
+  }
+  return null;
+};
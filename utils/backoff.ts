@@ -0,0 +1,4 @@
+// Wait before retry number `attempt` (counting from 0): 1s, 2s, 4s ... up to `max`. The jitter keeps
+// two devices that lost each other at the same moment from retrying in lockstep.
+export const backoffDelay = (attempt: number, base = 1000, max = 30000) =>
+  Math.round(Math.min(max, base * 2 ** attempt) * (0.8 + Math.random() * 0.4));
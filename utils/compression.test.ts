@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { chooseCompression, compressChunk, decompressChunk } from './compression';
+
+const text = new TextEncoder().encode('line of a log file that repeats\n'.repeat(2000)).buffer as ArrayBuffer;
+
+const randomBytes = (length: number) => {
+  const bytes = new Uint8Array(length);
+  for (let i = 0; i < length; i += 65536) crypto.getRandomValues(bytes.subarray(i, i + 65536));
+  return bytes;
+};
+
+describe('chunk compression', () => {
+  it('restores the exact bytes in both formats', async () => {
+    for (const format of ['deflate', 'gzip'] as const) {
+      const packed = await compressChunk(text, format);
+      expect(packed.byteLength).toBeLessThan(text.byteLength);
+      const restored = await decompressChunk(packed, format, text.byteLength);
+      expect(new Uint8Array(restored)).toEqual(new Uint8Array(text));
+    }
+  });
+
+  it('refuses a chunk that inflates past what the file has left', async () => {
+    const packed = await compressChunk(text, 'deflate');
+    await expect(decompressChunk(packed, 'deflate', text.byteLength - 1)).rejects.toThrow('larger than the file');
+  });
+
+  it('rejects data that is not in the announced format', async () => {
+    await expect(decompressChunk(randomBytes(1024).buffer as ArrayBuffer, 'deflate', 1 << 20)).rejects.toThrow();
+  });
+});
+
+describe('chooseCompression', () => {
+  it('compresses text, skips media and judges the rest by a sample', async () => {
+    expect(await chooseCompression(new File([text], 'server.log'))).toBe('deflate');
+    expect(await chooseCompression(new File([text], 'clip.mp4', { type: 'video/mp4' }))).toBeUndefined();
+    expect(await chooseCompression(new File([randomBytes(128 * 1024)], 'blob.bin'))).toBeUndefined();
+    expect(await chooseCompression(new File([new Uint8Array(128 * 1024)], 'zeros.bin'))).toBe('deflate');
+    expect(await chooseCompression(new File(['tiny'], 'small.txt'))).toBeUndefined();
+  });
+});
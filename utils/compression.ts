@@ -0,0 +1,95 @@
+import { CompressionFormat } from '../types';
+
+// Per-chunk compression with the browser's CompressionStream. Every chunk is compressed on its own, so
+// offsets, resume, chunk retries and striping work exactly as for uncompressed files. Files that are
+// already compressed (media, archives, office documents) or look random are sent as they are.
+
+const MIN_FILE_SIZE = 4 * 1024;
+const SAMPLE_SIZE = 64 * 1024;
+// Bits per byte; plain text sits around 4-5, compressed or encrypted data close to 8
+const MAX_ENTROPY = 7.2;
+
+const COMPRESSED_EXTENSIONS = new Set([
+  'zip', 'gz', 'tgz', 'bz2', 'xz', 'zst', 'br', '7z', 'rar', 'jar', 'apk', 'dmg', 'iso',
+  'jpg', 'jpeg', 'png', 'gif', 'webp', 'avif', 'heic', 'heif',
+  'mp4', 'm4v', 'mov', 'mkv', 'webm', 'avi', 'mp3', 'm4a', 'aac', 'ogg', 'opus', 'flac',
+  'pdf', 'docx', 'xlsx', 'pptx', 'odt', 'ods', 'odp', 'epub', 'woff', 'woff2'
+]);
+
+const TEXT_EXTENSIONS = new Set([
+  'txt', 'log', 'csv', 'tsv', 'json', 'ndjson', 'xml', 'html', 'htm', 'css', 'md', 'yaml', 'yml', 'toml', 'ini', 'conf',
+  'sql', 'svg', 'js', 'mjs', 'ts', 'tsx', 'jsx', 'py', 'rb', 'go', 'rs', 'java', 'kt', 'c', 'h', 'cpp', 'hpp', 'cs', 'php', 'sh',
+  'tar', 'bmp', 'wav'
+]);
+
+const COMPRESSED_MIME = /^(image|video|audio)\/|^application\/(zip|gzip|x-gzip|x-bzip2|x-xz|zstd|x-7z-compressed|vnd\.rar|x-rar-compressed|pdf|epub\+zip|vnd\.openxmlformats)/;
+const TEXT_MIME = /^text\/|^application\/(json|xml|javascript|sql|x-tar|x-sh|x-yaml)|\+(json|xml)$|^image\/(svg\+xml|bmp)$|^audio\/(wav|x-wav)$/;
+
+export const supportsCompression = () => typeof CompressionStream !== 'undefined';
+
+// Formats this browser can decompress, offered to the sender when approving a batch
+export const acceptedCompression = (): CompressionFormat[] =>
+  typeof DecompressionStream === 'undefined' ? [] : ['deflate', 'gzip'];
+
+const extensionOf = (name: string) => {
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : '';
+};
+
+// Shannon entropy of a sample, in bits per byte
+const entropy = (bytes: Uint8Array) => {
+  if (bytes.length === 0) return 0;
+  const counts = new Uint32Array(256);
+  for (let i = 0; i < bytes.length; i++) counts[bytes[i]]++;
+  let bits = 0;
+  for (const count of counts) {
+    if (count === 0) continue;
+    const p = count / bytes.length;
+    bits -= p * Math.log2(p);
+  }
+  return bits;
+};
+
+// Picks a format for the file, or undefined to send it as is. The name and MIME type settle most files;
+// the rest are judged by a sample from the middle of the file.
+export const chooseCompression = async (file: File): Promise<CompressionFormat | undefined> => {
+  if (!supportsCompression() || file.size < MIN_FILE_SIZE) return undefined;
+  const extension = extensionOf(file.name);
+  if (TEXT_EXTENSIONS.has(extension) || TEXT_MIME.test(file.type)) return 'deflate';
+  if (COMPRESSED_EXTENSIONS.has(extension) || COMPRESSED_MIME.test(file.type)) return undefined;
+  try {
+    const start = Math.max(0, Math.floor((file.size - SAMPLE_SIZE) / 2));
+    const sample = new Uint8Array(await file.slice(start, start + SAMPLE_SIZE).arrayBuffer());
+    return entropy(sample) < MAX_ENTROPY ? 'deflate' : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+export const compressChunk = (data: ArrayBuffer, format: CompressionFormat) =>
+  new Response(new Blob([data]).stream().pipeThrough(new CompressionStream(format))).arrayBuffer();
+
+// Throws when the data is not valid for the format or would inflate past `limit` bytes, so a
+// hostile chunk cannot expand into more memory than the file has left
+export const decompressChunk = async (data: ArrayBuffer, format: CompressionFormat, limit: number) => {
+  const reader = new Blob([data]).stream().pipeThrough(new DecompressionStream(format)).getReader();
+  const parts: Uint8Array[] = [];
+  let length = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    length += value.byteLength;
+    if (length > limit) {
+      await reader.cancel();
+      throw new Error('Decompressed chunk is larger than the file');
+    }
+    parts.push(value);
+  }
+  const out = new Uint8Array(length);
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.byteLength;
+  }
+  return out.buffer;
+};
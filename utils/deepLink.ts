@@ -0,0 +1,53 @@
+// Pairing links look like https://host/?connect=123456&code=482913 and are what the receiver's QR code
+// encodes. The code is the receiver's current pairing code, so scanning saves typing it.
+
+const CONNECT_PARAM = 'connect';
+const CODE_PARAM = 'code';
+const PEER_ID_PATTERN = /^\d{6}$/;
+const PAIRING_CODE_PATTERN = /^\d{6}$/;
+
+export interface ConnectTarget {
+  id: string;
+  code: string | null;
+}
+
+export const isValidPeerId = (value: string) => PEER_ID_PATTERN.test(value);
+
+export const isValidPairingCode = (value: string) => PAIRING_CODE_PATTERN.test(value);
+
+export const buildConnectLink = (peerId: string, code?: string) => {
+  const url = new URL(window.location.pathname, window.location.origin);
+  url.searchParams.set(CONNECT_PARAM, peerId);
+  if (code) url.searchParams.set(CODE_PARAM, code);
+  return url.toString();
+};
+
+const readCode = (url: URL) => {
+  const code = url.searchParams.get(CODE_PARAM);
+  return code && isValidPairingCode(code) ? code : null;
+};
+
+// Accepts a full pairing link or a bare 6-digit ID; anything else yields null
+export const parseConnectTarget = (value: string): ConnectTarget | null => {
+  const text = value.trim();
+  if (isValidPeerId(text)) return { id: text, code: null };
+  try {
+    const url = new URL(text);
+    const id = url.searchParams.get(CONNECT_PARAM);
+    return id && isValidPeerId(id) ? { id, code: readCode(url) } : null;
+  } catch {
+    return null;
+  }
+};
+
+// Reads the target from the page URL once and strips it, so a reload does not reconnect
+export const consumeConnectLink = (): ConnectTarget | null => {
+  const url = new URL(window.location.href);
+  const id = url.searchParams.get(CONNECT_PARAM);
+  if (id === null) return null;
+  const code = readCode(url);
+  url.searchParams.delete(CONNECT_PARAM);
+  url.searchParams.delete(CODE_PARAM);
+  window.history.replaceState(null, '', url.toString());
+  return isValidPeerId(id) ? { id, code } : null;
+};
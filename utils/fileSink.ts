@@ -0,0 +1,193 @@
+import { sanitizeRelativePath } from './folder';
+
+// Destinations for incoming bytes. Large files are written out as chunks arrive so memory use
+// stays flat regardless of file size; only small files are collected in RAM.
+
+export type SinkKind = 'memory' | 'directory' | 'opfs' | 'service-worker';
+
+export interface FileSink {
+  readonly kind: SinkKind;
+  write(chunk: ArrayBuffer | Uint8Array): Promise<void>;
+  // Resolves to a Blob the page can offer for download, or null when the bytes already reached disk
+  close(): Promise<Blob | null>;
+  abort(): Promise<void>;
+}
+
+// Files up to this size are simply buffered; anything larger streams to disk when the browser allows it
+export const IN_MEMORY_LIMIT = 64 * 1024 * 1024;
+
+// Small writes to disk are slow, so chunks are batched up to this size first
+const WRITE_BATCH_SIZE = 1024 * 1024;
+
+const OPFS_TEMP_DIR = 'privateshare-incoming';
+const DOWNLOAD_WORKER_URL = '/download-sw.js';
+const DOWNLOAD_PREFIX = '/__privateshare_download__/';
+
+const toBytes = (chunk: ArrayBuffer | Uint8Array) => (chunk instanceof Uint8Array ? chunk : new Uint8Array(chunk));
+
+// Collects chunks and hands them to flush() in batches of roughly WRITE_BATCH_SIZE
+const createBatcher = (flush: (data: Uint8Array) => Promise<void>) => {
+  let parts: Uint8Array[] = [];
+  let size = 0;
+  const drain = async () => {
+    if (size === 0) return;
+    const data = new Uint8Array(size);
+    let offset = 0;
+    for (const part of parts) {
+      data.set(part, offset);
+      offset += part.byteLength;
+    }
+    parts = [];
+    size = 0;
+    await flush(data);
+  };
+  return {
+    async push(chunk: ArrayBuffer | Uint8Array) {
+      const bytes = toBytes(chunk);
+      parts.push(bytes);
+      size += bytes.byteLength;
+      if (size >= WRITE_BATCH_SIZE) await drain();
+    },
+    drain
+  };
+};
+
+export const createMemorySink = (type: string): FileSink => {
+  let parts: BlobPart[] = [];
+  return {
+    kind: 'memory',
+    async write(chunk) {
+      parts.push(toBytes(chunk));
+    },
+    async close() {
+      const blob = new Blob(parts, { type });
+      parts = [];
+      return blob;
+    },
+    async abort() {
+      parts = [];
+    }
+  };
+};
+
+const createWritableSink = (kind: SinkKind, writable: FileSystemWritableFileStream, onClose: () => Promise<Blob | null>, onAbort: () => Promise<void>): FileSink => {
+  const batcher = createBatcher(data => writable.write(data));
+  return {
+    kind,
+    write: chunk => batcher.push(chunk),
+    async close() {
+      await batcher.drain();
+      await writable.close();
+      return onClose();
+    },
+    async abort() {
+      await writable.abort().catch(() => undefined);
+      await onAbort().catch(() => undefined);
+    }
+  };
+};
+
+// Writes into a folder the user picked, creating intermediate folders from the relative path
+export const createDirectorySink = async (root: FileSystemDirectoryHandle, path: string): Promise<FileSink> => {
+  const segments = sanitizeRelativePath(path).split('/');
+  const fileName = segments.pop() || 'file';
+  let dir = root;
+  for (const segment of segments) {
+    dir = await dir.getDirectoryHandle(segment, { create: true });
+  }
+  const handle = await dir.getFileHandle(fileName, { create: true });
+  const writable = await handle.createWritable();
+  return createWritableSink('directory', writable, async () => null, () => dir.removeEntry(fileName));
+};
+
+export const supportsOpfs = () =>
+  typeof navigator.storage?.getDirectory === 'function' &&
+  typeof FileSystemFileHandle !== 'undefined' &&
+  'createWritable' in FileSystemFileHandle.prototype;
+
+// Origin-private file system: disk-backed, invisible to the user until they press Save
+export const createOpfsSink = async (key: string, type: string): Promise<FileSink> => {
+  const root = await navigator.storage.getDirectory();
+  const dir = await root.getDirectoryHandle(OPFS_TEMP_DIR, { create: true });
+  const fileName = key.replace(/[^\w.-]/g, '_');
+  const handle = await dir.getFileHandle(fileName, { create: true });
+  const writable = await handle.createWritable();
+  return createWritableSink('opfs', writable, async () => {
+    // The File returned here is backed by disk, so an object URL to it costs no memory
+    const file = await handle.getFile();
+    return type && file.type !== type ? new Blob([file], { type }) : file;
+  }, () => dir.removeEntry(fileName));
+};
+
+// Removes leftovers from earlier sessions; received files must have been saved by then
+export const clearOpfsTemp = async () => {
+  if (!supportsOpfs()) return;
+  const root = await navigator.storage.getDirectory();
+  await root.removeEntry(OPFS_TEMP_DIR, { recursive: true }).catch(() => undefined);
+};
+
+export const registerDownloadWorker = () => {
+  if (!('serviceWorker' in navigator)) return;
+  navigator.serviceWorker.register(DOWNLOAD_WORKER_URL).catch(err => console.warn('Download worker unavailable:', err));
+};
+
+export const supportsServiceWorkerDownload = () => !!navigator.serviceWorker?.controller;
+
+// Pipes chunks to the download worker, which streams them into the browser's own download manager.
+// size becomes the Content-Length, so pass 0 when the final length is not known up front.
+export const createServiceWorkerSink = (name: string, size: number): Promise<FileSink> =>
+  new Promise((resolve, reject) => {
+    const controller = navigator.serviceWorker.controller;
+    if (!controller) {
+      reject(new Error('Download worker is not active'));
+      return;
+    }
+    const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+    const channel = new MessageChannel();
+    const batcher = createBatcher(async data => channel.port1.postMessage(data.buffer, [data.buffer]));
+
+    channel.port1.onmessage = ({ data }) => {
+      if (data !== 'ready') return;
+      const frame = document.createElement('iframe');
+      frame.hidden = true;
+      frame.src = `${DOWNLOAD_PREFIX}${id}`;
+      document.body.appendChild(frame);
+      // The download keeps going after the frame is gone
+      setTimeout(() => frame.remove(), 60_000);
+      resolve({
+        kind: 'service-worker',
+        write: chunk => batcher.push(chunk),
+        async close() {
+          await batcher.drain();
+          channel.port1.postMessage('end');
+          return null;
+        },
+        async abort() {
+          channel.port1.postMessage('abort');
+        }
+      });
+    };
+    controller.postMessage({ id, name, size }, [channel.port2]);
+  });
+
+// Sink for a file that is offered as a normal download: RAM for small files, then OPFS, then the download worker.
+// size is the expected length; exactSize is false for outputs like a ZIP whose final length differs.
+export const createDownloadSink = async (key: string, name: string, size: number, type: string, exactSize = true): Promise<FileSink> => {
+  if (size > IN_MEMORY_LIMIT) {
+    if (supportsOpfs()) {
+      try {
+        return await createOpfsSink(key, type);
+      } catch (err) {
+        console.warn('OPFS unavailable, trying download worker:', err);
+      }
+    }
+    if (supportsServiceWorkerDownload()) {
+      try {
+        return await createServiceWorkerSink(name, exactSize ? size : 0);
+      } catch (err) {
+        console.warn('Download worker failed, buffering in memory:', err);
+      }
+    }
+  }
+  return createMemorySink(type);
+};
@@ -0,0 +1,87 @@
+// Helpers for sending and saving folders while keeping their relative paths.
+
+// The directory picker is Chromium-only and not in TypeScript's DOM library yet
+declare global {
+  interface Window {
+    showDirectoryPicker?: (options?: { id?: string; mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>;
+  }
+}
+
+export interface PickedFile {
+  file: File;
+  path?: string;
+}
+
+// Strips empty, '.' and '..' segments so a remote path can never escape the chosen folder
+export const sanitizeRelativePath = (path: string) =>
+  path
+    .split(/[\\/]+/)
+    .filter(segment => segment && segment !== '.' && segment !== '..')
+    .join('/');
+
+const readAllEntries = (reader: FileSystemDirectoryReader) =>
+  new Promise<FileSystemEntry[]>((resolve, reject) => {
+    const all: FileSystemEntry[] = [];
+    // readEntries only returns a batch at a time; keep reading until it comes back empty
+    const next = () => reader.readEntries(entries => {
+      if (entries.length === 0) {
+        resolve(all);
+      } else {
+        all.push(...entries);
+        next();
+      }
+    }, reject);
+    next();
+  });
+
+const walkEntry = async (entry: FileSystemEntry, out: PickedFile[]) => {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    out.push({ file, path: sanitizeRelativePath(entry.fullPath) });
+  } else if (entry.isDirectory) {
+    const children = await readAllEntries((entry as FileSystemDirectoryEntry).createReader());
+    for (const child of children) {
+      await walkEntry(child, out);
+    }
+  }
+};
+
+// Expands dropped items, recursing into directories. Must be called synchronously from the drop handler,
+// because DataTransferItem entries are only available during the event.
+export const collectDroppedFiles = (dataTransfer: DataTransfer): Promise<PickedFile[]> => {
+  const entries = Array.from(dataTransfer.items)
+    .map(item => (item.kind === 'file' ? item.webkitGetAsEntry() : null))
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  if (entries.length === 0) {
+    return Promise.resolve(Array.from(dataTransfer.files).map(file => ({ file })));
+  }
+
+  return (async () => {
+    const out: PickedFile[] = [];
+    for (const entry of entries) {
+      await walkEntry(entry, out);
+    }
+    return out;
+  })();
+};
+
+// Files from an <input webkitdirectory> carry their path in webkitRelativePath
+export const collectInputFiles = (files: FileList): PickedFile[] =>
+  Array.from(files).map(file => ({
+    file,
+    path: file.webkitRelativePath ? sanitizeRelativePath(file.webkitRelativePath) : undefined
+  }));
+
+export const supportsDirectoryPicker = () => typeof window.showDirectoryPicker === 'function';
+
+export const pickSaveDirectory = (): Promise<FileSystemDirectoryHandle> =>
+  window.showDirectoryPicker
+    ? window.showDirectoryPicker({ mode: 'readwrite' })
+    : Promise.reject(new Error('This browser cannot save to a folder'));
+
+// Top-level folder shared by every path, used to name the archive
+export const commonRootFolder = (paths: string[]) => {
+  const roots = new Set(paths.map(p => (p.includes('/') ? p.split('/')[0] : '')));
+  return roots.size === 1 ? [...roots][0] : '';
+};
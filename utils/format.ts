@@ -0,0 +1,24 @@
+import { CompressionStats } from '../types';
+
+// Function to format bytes to human readable string
+export const formatBytes = (bytes: number, decimals = 2) => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const dm = decimals < 0 ? 0 : decimals;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(dm)) + ' ' + sizes[i];
+};
+
+export const formatSpeed = (bytesPerSecond: number) => `${formatBytes(Math.round(bytesPerSecond), 1)}/s`;
+
+// "45s", "3m 20s", "1h 5m"
+export const formatDuration = (seconds: number) => {
+  const s = Math.max(0, Math.round(seconds));
+  if (s < 60) return `${s}s`;
+  if (s < 3600) return `${Math.floor(s / 60)}m ${s % 60}s`;
+  return `${Math.floor(s / 3600)}h ${Math.floor((s % 3600) / 60)}m`;
+};
+
+// "deflate 3.2×": original size per byte sent
+export const formatCompression = (stats: CompressionStats) => `${stats.format} ${stats.ratio.toFixed(1)}×`;
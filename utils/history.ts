@@ -0,0 +1,111 @@
+import { FileOutcome, HistoryEntry } from '../types';
+import { BLOB_STORE, HISTORY_STORE, done, openDb, request } from './db';
+
+// Finished, failed and declined files, kept in IndexedDB across reloads. Received files can
+// optionally be stored as well so they can be downloaded again; the oldest copies are dropped
+// first once the quota is reached.
+
+export interface HistoryPrefs {
+  keepReceived: boolean;
+  quotaMb: number;
+}
+
+export const DEFAULT_HISTORY_PREFS: HistoryPrefs = { keepReceived: false, quotaMb: 500 };
+
+const PREFS_KEY = 'privateshare:history-prefs';
+
+export const loadHistoryPrefs = (): HistoryPrefs => {
+  try {
+    const raw = localStorage.getItem(PREFS_KEY);
+    if (!raw) return DEFAULT_HISTORY_PREFS;
+    const stored = JSON.parse(raw) as Partial<HistoryPrefs>;
+    return {
+      keepReceived: !!stored.keepReceived,
+      quotaMb: typeof stored.quotaMb === 'number' && stored.quotaMb >= 0 ? stored.quotaMb : DEFAULT_HISTORY_PREFS.quotaMb
+    };
+  } catch {
+    return DEFAULT_HISTORY_PREFS;
+  }
+};
+
+export const saveHistoryPrefs = (prefs: HistoryPrefs) => {
+  localStorage.setItem(PREFS_KEY, JSON.stringify(prefs));
+};
+
+export const createHistoryEntry = (outcome: FileOutcome, peer: string): HistoryEntry => {
+  const { blob, ...rest } = outcome;
+  const duration = Math.max(0, outcome.finishedAt - outcome.startedAt);
+  return {
+    ...rest,
+    id: `${outcome.finishedAt}-${Math.random().toString(36).slice(2, 8)}`,
+    peer,
+    duration,
+    averageSpeed: duration > 0 ? outcome.transferred / (duration / 1000) : 0,
+    hasBlob: false
+  };
+};
+
+// Newest first
+export const listHistory = async () => {
+  const db = await openDb();
+  const entries = await request(db.transaction(HISTORY_STORE).objectStore(HISTORY_STORE).getAll() as IDBRequest<HistoryEntry[]>);
+  return entries.sort((a, b) => b.finishedAt - a.finishedAt);
+};
+
+// Bytes held by stored received files
+export const storedBlobBytes = (entries: HistoryEntry[]) =>
+  entries.reduce((sum, entry) => sum + (entry.hasBlob ? entry.size : 0), 0);
+
+export const addHistoryEntry = async (entry: HistoryEntry, blob?: Blob) => {
+  const prefs = loadHistoryPrefs();
+  const quota = prefs.quotaMb * 1024 * 1024;
+  const keep = !!blob && prefs.keepReceived && blob.size <= quota;
+
+  // Oldest stored copies make room for the new one
+  const evict: HistoryEntry[] = [];
+  if (keep) {
+    const stored = (await listHistory()).filter(e => e.hasBlob).reverse();
+    let used = storedBlobBytes(stored);
+    for (const old of stored) {
+      if (used + blob!.size <= quota) break;
+      evict.push(old);
+      used -= old.size;
+    }
+  }
+
+  const db = await openDb();
+  const tx = db.transaction([HISTORY_STORE, BLOB_STORE], 'readwrite');
+  const history = tx.objectStore(HISTORY_STORE);
+  const blobs = tx.objectStore(BLOB_STORE);
+  for (const old of evict) {
+    blobs.delete(old.id);
+    history.put({ ...old, hasBlob: false });
+  }
+  history.put({ ...entry, hasBlob: keep });
+  if (keep) blobs.put(blob, entry.id);
+  await done(tx);
+};
+
+export const getHistoryBlob = async (id: string) => {
+  const db = await openDb();
+  return request(db.transaction(BLOB_STORE).objectStore(BLOB_STORE).get(id) as IDBRequest<Blob | undefined>);
+};
+
+// Drops every stored file but keeps the records
+export const purgeHistoryBlobs = async () => {
+  const entries = await listHistory();
+  const db = await openDb();
+  const tx = db.transaction([HISTORY_STORE, BLOB_STORE], 'readwrite');
+  tx.objectStore(BLOB_STORE).clear();
+  const history = tx.objectStore(HISTORY_STORE);
+  entries.filter(entry => entry.hasBlob).forEach(entry => history.put({ ...entry, hasBlob: false }));
+  await done(tx);
+};
+
+export const clearHistory = async () => {
+  const db = await openDb();
+  const tx = db.transaction([HISTORY_STORE, BLOB_STORE], 'readwrite');
+  tx.objectStore(HISTORY_STORE).clear();
+  tx.objectStore(BLOB_STORE).clear();
+  await done(tx);
+};
@@ -0,0 +1,143 @@
+import { PeerDevice, TrustedDevice } from '../types';
+import { IDENTITY_STORE, openDb, request } from './db';
+
+// This device's long-term identity: a stable PeerJS ID and a display name (localStorage), and an
+// ECDSA key pair (IndexedDB, private key not extractable). The key signs every handshake, so other
+// devices recognise this one by its key; the ID only tells them where to connect.
+
+export interface DeviceProfile {
+  id: string;
+  name: string;
+}
+
+export interface DeviceKeys {
+  privateKey: CryptoKey;
+  publicKey: ArrayBuffer;
+  fingerprint: string;
+}
+
+export const MAX_DEVICE_NAME_LENGTH = 40;
+
+const PROFILE_KEY = 'privateshare:device';
+const TRUSTED_KEY = 'privateshare:trusted-devices';
+const KEYS_RECORD = 'device-keys';
+const SIGNING_KEY = { name: 'ECDSA', namedCurve: 'P-256' };
+const SIGNATURE = { name: 'ECDSA', hash: 'SHA-256' };
+// Signed along with the handshake key so the signature cannot be reused for anything else
+const HANDSHAKE_CONTEXT = new TextEncoder().encode('privateshare-device-handshake');
+
+// Six digits, like every PeerJS ID this app uses
+export const generateDeviceId = () => Math.floor(100000 + Math.random() * 900000).toString();
+
+// "Chrome on Mac", "Safari on iOS"
+const defaultDeviceName = () => {
+  const ua = navigator.userAgent;
+  const os = /iPhone|iPad/.test(ua) ? 'iOS' : /Android/.test(ua) ? 'Android' : /Mac/.test(ua) ? 'Mac' : /Windows/.test(ua) ? 'Windows' : /Linux/.test(ua) ? 'Linux' : 'device';
+  const browser = /Edg\//.test(ua) ? 'Edge' : /Firefox\//.test(ua) ? 'Firefox' : /Chrome\//.test(ua) ? 'Chrome' : /Safari\//.test(ua) ? 'Safari' : 'Browser';
+  return `${browser} on ${os}`;
+};
+
+// Created on first use, so the ID stays the same across reloads
+export const loadDeviceProfile = (): DeviceProfile => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PROFILE_KEY) || 'null') as Partial<DeviceProfile> | null;
+    if (stored && /^\d{6}$/.test(stored.id ?? '') && typeof stored.name === 'string' && stored.name.trim()) {
+      return { id: stored.id!, name: stored.name };
+    }
+  } catch {
+    // Fall through and start over
+  }
+  const profile = { id: generateDeviceId(), name: defaultDeviceName() };
+  saveDeviceProfile(profile);
+  return profile;
+};
+
+export const saveDeviceProfile = (profile: DeviceProfile) => {
+  localStorage.setItem(PROFILE_KEY, JSON.stringify({ ...profile, name: profile.name.trim().slice(0, MAX_DEVICE_NAME_LENGTH) }));
+};
+
+const concatBytes = (...parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.byteLength, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.byteLength;
+  }
+  return out;
+};
+
+const fingerprintOf = async (publicKey: ArrayBuffer) => {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', publicKey));
+  return Array.from(digest, b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// First 16 hex digits in groups of four, enough to compare by eye
+export const formatFingerprint = (fingerprint: string) => fingerprint.slice(0, 16).match(/.{4}/g)!.join(' ');
+
+let keysPromise: Promise<DeviceKeys> | null = null;
+
+const loadOrCreateKeys = async (): Promise<DeviceKeys> => {
+  const db = await openDb();
+  let pair = await request(db.transaction(IDENTITY_STORE).objectStore(IDENTITY_STORE).get(KEYS_RECORD) as IDBRequest<CryptoKeyPair | undefined>);
+  if (!pair) {
+    // Only the private key is locked in; a public key can always be exported
+    pair = await crypto.subtle.generateKey(SIGNING_KEY, false, ['sign', 'verify']) as CryptoKeyPair;
+    await request(db.transaction(IDENTITY_STORE, 'readwrite').objectStore(IDENTITY_STORE).put(pair, KEYS_RECORD));
+  }
+  const publicKey = await crypto.subtle.exportKey('raw', pair.publicKey);
+  return { privateKey: pair.privateKey, publicKey, fingerprint: await fingerprintOf(publicKey) };
+};
+
+export const getDeviceKeys = () => {
+  if (!keysPromise) {
+    keysPromise = loadOrCreateKeys().catch(err => {
+      keysPromise = null;
+      throw err;
+    });
+  }
+  return keysPromise;
+};
+
+const signedBytes = (handshakeKey: ArrayBuffer, name: string) =>
+  concatBytes(HANDSHAKE_CONTEXT, new Uint8Array(handshakeKey), new TextEncoder().encode(name));
+
+// Signs this connection's ephemeral key, binding the device key (and name) to the session key
+export const signHandshake = async (handshakeKey: ArrayBuffer) => {
+  const keys = await getDeviceKeys();
+  const { name } = loadDeviceProfile();
+  const signature = await crypto.subtle.sign(SIGNATURE, keys.privateKey, signedBytes(handshakeKey, name));
+  return { identityKey: keys.publicKey, signature, name };
+};
+
+// null when the signature does not match
+export const verifyHandshake = async (handshakeKey: ArrayBuffer, identityKey: ArrayBuffer, signature: ArrayBuffer, name: string): Promise<PeerDevice | null> => {
+  const key = await crypto.subtle.importKey('raw', identityKey, SIGNING_KEY, false, ['verify']);
+  const valid = await crypto.subtle.verify(SIGNATURE, key, signature, signedBytes(handshakeKey, name));
+  return valid ? { fingerprint: await fingerprintOf(identityKey), name: name.slice(0, MAX_DEVICE_NAME_LENGTH) } : null;
+};
+
+export const loadTrustedDevices = (): TrustedDevice[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(TRUSTED_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter(d => typeof d?.fingerprint === 'string' && typeof d?.name === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveTrustedDevices = (devices: TrustedDevice[]) => {
+  localStorage.setItem(TRUSTED_KEY, JSON.stringify(devices));
+  return devices;
+};
+
+export const trustDevice = (device: PeerDevice, peerId: string) =>
+  saveTrustedDevices([
+    ...loadTrustedDevices().filter(d => d.fingerprint !== device.fingerprint),
+    { ...device, peerId, addedAt: Date.now() }
+  ]);
+
+export const revokeDevice = (fingerprint: string) =>
+  saveTrustedDevices(loadTrustedDevices().filter(d => d.fingerprint !== fingerprint));
+
+export const isTrustedDevice = (device: PeerDevice | null, trusted: TrustedDevice[]) =>
+  !!device && trusted.some(d => d.fingerprint === device.fingerprint);
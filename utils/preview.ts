@@ -0,0 +1,92 @@
+import { FilePreview } from '../types';
+
+// Thumbnails for the manifest, so the receiver sees what it is asked to accept: a downscaled image, a
+// frame from early in a video, or the first lines of a text file. PDFs get none; rendering a page
+// would need a PDF engine this app does not ship.
+
+export const MAX_PREVIEW_URL_LENGTH = 16 * 1024;
+export const MAX_PREVIEW_TEXT_LENGTH = 400;
+// All previews of one manifest together; files past this are offered without one
+export const MAX_MANIFEST_PREVIEWS = 48 * 1024;
+const THUMBNAIL_SIZE = 160;
+// Larger images are not decoded just for a thumbnail
+const MAX_IMAGE_SIZE = 64 * 1024 * 1024;
+const VIDEO_TIMEOUT = 4000;
+const TEXT_SAMPLE_SIZE = 4 * 1024;
+const TEXT_LINES = 8;
+
+const TEXT_MIME = /^text\/|^application\/(json|xml|javascript|x-sh|x-yaml|sql)$|\+(json|xml)$/;
+
+const drawThumbnail = (source: CanvasImageSource, width: number, height: number): FilePreview | null => {
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+  // Lower the quality until it fits
+  for (const quality of [0.75, 0.55, 0.35]) {
+    const url = canvas.toDataURL('image/jpeg', quality);
+    if (url.length <= MAX_PREVIEW_URL_LENGTH) return { kind: 'image', url };
+  }
+  return null;
+};
+
+const imagePreview = async (file: File) => {
+  if (file.size > MAX_IMAGE_SIZE) return null;
+  const bitmap = await createImageBitmap(file);
+  try {
+    return drawThumbnail(bitmap, bitmap.width, bitmap.height);
+  } finally {
+    bitmap.close();
+  }
+};
+
+// A frame a second in (or a tenth of the way into short clips); gives up on formats the browser cannot play
+const videoPreview = (file: File) => new Promise<FilePreview | null>(resolve => {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement('video');
+  let settled = false;
+  const finish = (preview: FilePreview | null) => {
+    if (settled) return;
+    settled = true;
+    clearTimeout(timer);
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+    resolve(preview);
+  };
+  const timer = window.setTimeout(() => finish(null), VIDEO_TIMEOUT);
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+  video.onloadedmetadata = () => { video.currentTime = Math.min(1, (video.duration || 0) / 10); };
+  video.onseeked = () => finish(video.videoWidth ? drawThumbnail(video, video.videoWidth, video.videoHeight) : null);
+  video.onerror = () => finish(null);
+  video.src = url;
+});
+
+// Files without a type are tried too; a sample that does not decode as text yields nothing
+const textPreview = async (file: File): Promise<FilePreview | null> => {
+  const bytes = new Uint8Array(await file.slice(0, TEXT_SAMPLE_SIZE).arrayBuffer());
+  if (bytes.includes(0)) return null;
+  const text = new TextDecoder().decode(bytes);
+  const garbage = text.match(/[\uFFFD\x01-\x08\x0E-\x1F]/g)?.length ?? 0;
+  if (garbage > text.length / 20) return null;
+  const snippet = text.split('\n').slice(0, TEXT_LINES).join('\n').slice(0, MAX_PREVIEW_TEXT_LENGTH).trimEnd();
+  return snippet ? { kind: 'text', text: snippet } : null;
+};
+
+export const createPreview = async (file: File): Promise<FilePreview | null> => {
+  try {
+    if (file.type.startsWith('image/')) return await imagePreview(file);
+    if (file.type.startsWith('video/')) return await videoPreview(file);
+    if (TEXT_MIME.test(file.type) || !file.type) return await textPreview(file);
+  } catch (err) {
+    console.warn(`No preview for ${file.name}:`, err);
+  }
+  return null;
+};
+
+export const previewSize = (preview: FilePreview) => preview.kind === 'image' ? preview.url.length : preview.text.length;
@@ -0,0 +1,132 @@
+import type { PeerOptions } from 'peerjs';
+
+// Connection settings, editable from the settings panel and kept in localStorage.
+// Empty signaling fields fall back to the public PeerJS cloud broker.
+
+export interface IceServerEntry {
+  // One URL per entry, e.g. "stun:stun.example.com:3478" or "turns:turn.example.com:5349"
+  url: string;
+  username?: string;
+  credential?: string;
+}
+
+export interface ConnectionSettings {
+  signaling: {
+    host: string;
+    // Kept as text so the form can hold a half-typed value; validated before saving
+    port: string;
+    path: string;
+    key: string;
+    secure: boolean;
+  };
+  iceServers: IceServerEntry[];
+  // Only use TURN relays, so the other side never learns this device's IP addresses
+  relayOnly: boolean;
+  // Data channels used for large files: 0 = automatic, 1 = off, otherwise a fixed count
+  stripeChannels: number;
+}
+
+export const MAX_STRIPE_CHANNELS = 8;
+
+const SETTINGS_KEY = 'privateshare:settings';
+
+export const DEFAULT_SETTINGS: ConnectionSettings = {
+  signaling: { host: '', port: '', path: '/', key: '', secure: true },
+  iceServers: [
+    { url: 'stun:stun.l.google.com:19302' },
+    { url: 'stun:stun1.l.google.com:19302' },
+    { url: 'stun:stun2.l.google.com:19302' },
+    { url: 'stun:stun3.l.google.com:19302' },
+    { url: 'stun:stun4.l.google.com:19302' }
+  ],
+  relayOnly: false,
+  stripeChannels: 1
+};
+
+export const loadSettings = (): ConnectionSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    if (!raw) return DEFAULT_SETTINGS;
+    const stored = JSON.parse(raw) as Partial<ConnectionSettings>;
+    const settings: ConnectionSettings = {
+      signaling: { ...DEFAULT_SETTINGS.signaling, ...stored.signaling },
+      iceServers: Array.isArray(stored.iceServers) ? stored.iceServers : DEFAULT_SETTINGS.iceServers,
+      relayOnly: !!stored.relayOnly,
+      stripeChannels: stored.stripeChannels ?? DEFAULT_SETTINGS.stripeChannels
+    };
+    // Anything edited by hand into an invalid state is ignored rather than breaking startup
+    return validateSettings(settings).length === 0 ? settings : DEFAULT_SETTINGS;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: ConnectionSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+const isTurnUrl = (url: string) => /^turns?:/i.test(url);
+
+// Returns a list of human-readable problems; empty means the settings can be applied
+export const validateSettings = (settings: ConnectionSettings): string[] => {
+  const errors: string[] = [];
+  const { host, port, path } = settings.signaling;
+
+  if (host && !/^[a-z0-9.-]+$/i.test(host)) {
+    errors.push('Signaling host must be a plain hostname or IP, without protocol or path.');
+  }
+  if (port) {
+    const value = Number(port);
+    if (!Number.isInteger(value) || value < 1 || value > 65535) errors.push('Signaling port must be between 1 and 65535.');
+  }
+  if (!host && (port || settings.signaling.key)) {
+    errors.push('Set a signaling host to use a custom port or key.');
+  }
+  if (path && !path.startsWith('/')) {
+    errors.push('Signaling path must start with "/".');
+  }
+
+  settings.iceServers.forEach((entry, i) => {
+    const label = `ICE server ${i + 1}`;
+    if (!/^(stun|stuns|turn|turns):[^\s]+$/i.test(entry.url)) {
+      errors.push(`${label} must start with stun:, stuns:, turn: or turns:.`);
+    } else if (isTurnUrl(entry.url) && (!entry.username || !entry.credential)) {
+      errors.push(`${label} is a TURN server and needs a username and credential.`);
+    }
+  });
+
+  if (settings.relayOnly && !settings.iceServers.some(entry => isTurnUrl(entry.url))) {
+    errors.push('Relay only needs at least one TURN server.');
+  }
+  if (!Number.isInteger(settings.stripeChannels) || settings.stripeChannels < 0 || settings.stripeChannels > MAX_STRIPE_CHANNELS) {
+    errors.push(`Parallel channels must be automatic or between 1 and ${MAX_STRIPE_CHANNELS}.`);
+  }
+  return errors;
+};
+
+// ICE configuration shared by PeerJS and the serverless pairing mode
+export const buildRtcConfiguration = (settings: ConnectionSettings): RTCConfiguration => ({
+  iceServers: settings.iceServers.map(entry => isTurnUrl(entry.url)
+    ? { urls: entry.url, username: entry.username, credential: entry.credential }
+    : { urls: entry.url }),
+  iceTransportPolicy: settings.relayOnly ? 'relay' : 'all'
+});
+
+export const buildPeerOptions = (settings: ConnectionSettings): PeerOptions => {
+  const { host, port, path, key, secure } = settings.signaling;
+  return {
+    debug: 1,
+    ...(host ? {
+      host,
+      port: port ? Number(port) : (secure ? 443 : 80),
+      path: path || '/',
+      key: key || undefined,
+      secure
+    } : {}),
+    config: {
+      ...buildRtcConfiguration(settings),
+      sdpSemantics: 'unified-plan',
+      iceCandidatePoolSize: 10, // Pre-fetch candidates for faster local connection
+    }
+  };
+};
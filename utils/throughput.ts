@@ -0,0 +1,55 @@
+import { TransferStats } from '../types';
+
+const STATS_INTERVAL = 250; // ms between UI updates
+
+// Tracks bytes moved over time: `current` is a sliding-window rate, `average` covers the whole transfer
+export class ThroughputMeter {
+  private samples: { time: number; bytes: number }[] = [];
+  private startTime = 0;
+  private lastReport = 0;
+  private bytes = 0;
+
+  constructor(private windowMs = 2000) {}
+
+  reset() {
+    this.startTime = performance.now();
+    this.lastReport = 0;
+    this.bytes = 0;
+    this.samples = [{ time: this.startTime, bytes: 0 }];
+  }
+
+  add(bytes: number) {
+    const now = performance.now();
+    this.bytes += bytes;
+    this.samples.push({ time: now, bytes: this.bytes });
+    while (this.samples.length > 2 && now - this.samples[1].time > this.windowMs) this.samples.shift();
+  }
+
+  // Bytes per second over the last window
+  get current() {
+    const first = this.samples[0];
+    const last = this.samples[this.samples.length - 1];
+    const elapsed = (last.time - first.time) / 1000;
+    return elapsed > 0 ? (last.bytes - first.bytes) / elapsed : 0;
+  }
+
+  get average() {
+    const elapsed = (performance.now() - this.startTime) / 1000;
+    return elapsed > 0 ? this.bytes / elapsed : 0;
+  }
+
+  // Builds stats for the UI, at most every STATS_INTERVAL unless forced
+  report(transferred: number, total: number, force = false): TransferStats | null {
+    const now = performance.now();
+    if (!force && now - this.lastReport < STATS_INTERVAL) return null;
+    this.lastReport = now;
+    const speed = this.current || this.average;
+    return {
+      transferred,
+      total,
+      currentSpeed: this.current,
+      averageSpeed: this.average,
+      eta: speed > 0 ? (total - transferred) / speed : null
+    };
+  }
+}
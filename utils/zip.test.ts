@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { createMemorySink } from './fileSink';
+import { ZipBuilder } from './zip';
+
+const encode = (text: string) => new TextEncoder().encode(text).buffer as ArrayBuffer;
+
+// Reads the archive back through its central directory, the way unzip tools do
+const readZip = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const end = bytes.byteLength - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  let at = view.getUint32(end + 16, true);
+  const entries: { name: string; crc: number; data: string }[] = [];
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(at, true)).toBe(0x02014b50);
+    const crc = view.getUint32(at + 16, true);
+    const size = view.getUint32(at + 24, true);
+    const nameLength = view.getUint16(at + 28, true);
+    const offset = view.getUint32(at + 42, true);
+    const name = new TextDecoder().decode(bytes.subarray(at + 46, at + 46 + nameLength));
+    expect(view.getUint32(offset, true)).toBe(0x04034b50);
+    const dataStart = offset + 30 + view.getUint16(offset + 26, true) + view.getUint16(offset + 28, true);
+    entries.push({ name, crc, data: new TextDecoder().decode(bytes.subarray(dataStart, dataStart + size)) });
+    at += 46 + nameLength;
+  }
+  return entries;
+};
+
+describe('ZipBuilder', () => {
+  it('writes entries that read back with their names, data and checksums', async () => {
+    const zip = new ZipBuilder(createMemorySink('application/zip'));
+    await zip.startFile('project/readme.txt');
+    await zip.append(encode('hel'));
+    await zip.append(encode('lo'));
+    await zip.endFile();
+    await zip.startFile('project/src/ünïcode.md');
+    await zip.append(encode('# title\n'));
+    await zip.endFile();
+    const blob = await zip.finish();
+
+    expect(readZip(new Uint8Array(await blob!.arrayBuffer()))).toEqual([
+      { name: 'project/readme.txt', crc: 0x3610a686, data: 'hello' },
+      { name: 'project/src/ünïcode.md', crc: expect.any(Number), data: '# title\n' }
+    ]);
+  });
+
+  it('leaves an aborted entry out of the archive', async () => {
+    const zip = new ZipBuilder(createMemorySink('application/zip'));
+    await zip.startFile('broken.bin');
+    await zip.append(encode('partial'));
+    await zip.abortFile();
+    await zip.startFile('kept.txt');
+    await zip.append(encode('ok'));
+    await zip.endFile();
+    const blob = await zip.finish();
+
+    expect(readZip(new Uint8Array(await blob!.arrayBuffer())).map(entry => entry.name)).toEqual(['kept.txt']);
+  });
+});
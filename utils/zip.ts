@@ -0,0 +1,147 @@
+import { FileSink } from './fileSink';
+
+// Minimal streaming ZIP writer (store only, no compression).
+// Entries are written to the output sink chunk by chunk as they arrive, so the archive is ready as soon as the last file ends.
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const updateCrc32 = (crc: number, data: Uint8Array) => {
+  let c = crc ^ 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ 0xffffffff) >>> 0;
+};
+
+// Plain ZIP stores sizes and offsets as 32-bit values
+export const ZIP_MAX_SIZE = 0xffffffff;
+
+// Bit 3: sizes follow in a data descriptor. Bit 11: names are UTF-8.
+const FLAGS = 0x0808;
+
+const toDosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+interface ZipEntry {
+  name: Uint8Array;
+  offset: number;
+  crc: number;
+  size: number;
+}
+
+export class ZipBuilder {
+  private entries: ZipEntry[] = [];
+  private offset = 0;
+  private current: ZipEntry | null = null;
+  private stamp = toDosDateTime(new Date());
+
+  constructor(private output: FileSink) {}
+
+  async startFile(path: string) {
+    if (this.current) await this.abortFile();
+    this.current = { name: new TextEncoder().encode(path), offset: this.offset, crc: 0, size: 0 };
+    await this.emit(this.localHeader(this.current));
+  }
+
+  async append(chunk: ArrayBuffer) {
+    if (!this.current) return;
+    const bytes = new Uint8Array(chunk);
+    this.current.crc = updateCrc32(this.current.crc, bytes);
+    this.current.size += bytes.byteLength;
+    await this.emit(bytes);
+  }
+
+  // Commits the current entry to the archive
+  async endFile() {
+    const entry = await this.closeEntry();
+    if (entry) this.entries.push(entry);
+  }
+
+  // Bytes already written cannot be taken back, so a partial entry is closed off but left out of the
+  // central directory; unzip tools never see it
+  async abortFile() {
+    await this.closeEntry();
+  }
+
+  async finish(): Promise<Blob | null> {
+    if (this.current) await this.abortFile();
+    let centralSize = 0;
+    for (const entry of this.entries) {
+      const header = new DataView(new ArrayBuffer(46));
+      header.setUint32(0, 0x02014b50, true);
+      header.setUint16(4, 20, true);
+      header.setUint16(6, 20, true);
+      header.setUint16(8, FLAGS, true);
+      header.setUint16(10, 0, true);
+      header.setUint16(12, this.stamp.time, true);
+      header.setUint16(14, this.stamp.date, true);
+      header.setUint32(16, entry.crc, true);
+      header.setUint32(20, entry.size, true);
+      header.setUint32(24, entry.size, true);
+      header.setUint16(28, entry.name.byteLength, true);
+      header.setUint32(42, entry.offset, true);
+      await this.output.write(new Uint8Array(header.buffer));
+      await this.output.write(entry.name);
+      centralSize += 46 + entry.name.byteLength;
+    }
+
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true);
+    end.setUint16(8, this.entries.length, true);
+    end.setUint16(10, this.entries.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, this.offset, true);
+    await this.output.write(new Uint8Array(end.buffer));
+
+    return this.output.close();
+  }
+
+  abort() {
+    return this.output.abort();
+  }
+
+  private async emit(bytes: Uint8Array) {
+    await this.output.write(bytes);
+    this.offset += bytes.byteLength;
+  }
+
+  private async closeEntry() {
+    const entry = this.current;
+    if (!entry) return null;
+    this.current = null;
+    const descriptor = new DataView(new ArrayBuffer(16));
+    descriptor.setUint32(0, 0x08074b50, true);
+    descriptor.setUint32(4, entry.crc, true);
+    descriptor.setUint32(8, entry.size, true);
+    descriptor.setUint32(12, entry.size, true);
+    await this.emit(new Uint8Array(descriptor.buffer));
+    return entry;
+  }
+
+  private localHeader(entry: ZipEntry) {
+    const header = new Uint8Array(30 + entry.name.byteLength);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, 0x04034b50, true);
+    view.setUint16(4, 20, true);
+    view.setUint16(6, FLAGS, true);
+    view.setUint16(8, 0, true);
+    view.setUint16(10, this.stamp.time, true);
+    view.setUint16(12, this.stamp.date, true);
+    // CRC and sizes are left at zero; the data descriptor carries them
+    view.setUint16(26, entry.name.byteLength, true);
+    header.set(entry.name, 30);
+    return header;
+  }
+}